@@ -0,0 +1,89 @@
+import { afterAll, afterEach, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import express from "express";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { MapLayoutModel } from "../src/MapLayoutModel";
+import { registerBookingRoutes } from "./bookings";
+import { getSeatState } from "./seatAvailability";
+
+const layout = new MapLayoutModel({
+  x: 3,
+  y: 1,
+  cells: [{ id: "a", type: "seat" }, { id: "b", type: "seat" }, { id: "c", type: "seat" }]
+});
+
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  const app = express();
+
+  // The sweeper never runs during the tests, expired holds must be released by the handlers
+  registerBookingRoutes(app, () => layout, 2 ** 31 - 1);
+
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+
+  url = `http://localhost:${(server.address() as AddressInfo).port}/api/bookings`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+function post(action: "hold" | "confirm" | "release", body: Record<string, unknown>) {
+  return fetch(`${url}/${action}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+describe("booking expiry", () => {
+  test("a hold that expired before the sweeper ran can be held by someone else", async () => {
+    const now = Date.now();
+
+    expect((await post("hold", { clientId: "first", seats: [0], minutes: 1 })).status).toBe(200);
+    expect((await post("hold", { clientId: "second", seats: [0] })).status).toBe(409);
+
+    setSystemTime(now + 2 * 60 * 1000);
+
+    const response = await post("hold", { clientId: "second", seats: [0] });
+
+    expect(response.status).toBe(200);
+    expect(getSeatState(0)).toBe("held");
+
+    await post("release", { clientId: "second", seats: [0] });
+  });
+
+  test("an expired hold can't be confirmed", async () => {
+    const now = Date.now();
+
+    await post("hold", { clientId: "first", seats: [1], minutes: 1 });
+
+    setSystemTime(now + 2 * 60 * 1000);
+
+    const response = await post("confirm", { clientId: "first", seats: [1] });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).unavailable).toEqual([1]);
+  });
+
+  test("holding again extends the client's own hold", async () => {
+    const now = Date.now();
+
+    await post("hold", { clientId: "first", seats: [2], minutes: 1 });
+
+    setSystemTime(now + 30 * 1000);
+    await post("hold", { clientId: "first", seats: [2], minutes: 1 });
+
+    setSystemTime(now + 80 * 1000);
+    expect((await post("confirm", { clientId: "first", seats: [2] })).status).toBe(200);
+    expect(getSeatState(2)).toBe("booked");
+  });
+});
@@ -0,0 +1,221 @@
+import express, { type Express, type Response } from "express";
+import type { MapLayoutModel } from "../src/MapLayoutModel";
+import type { SeatStates } from "../src/types";
+import { getSeatState, publishSeatStates } from "./seatAvailability";
+
+// Reference endpoints for HTTPBookingClient. Seats are held for a while before they are confirmed,
+// a sweeper releases holds that expire. Every change is pushed to viewers through seatAvailability.ts.
+// Handlers run one at a time, so two clients racing for the same seat can never both get it.
+
+type Booking = {
+  clientId: string;
+  status: "held" | "booked";
+  expiresAt: number | null;
+};
+
+type BookingRequest = {
+  layout: MapLayoutModel;
+  clientId: string;
+  seats: number[];
+  ids: string[]; // ids[i] is the id of the cell at seats[i]
+};
+
+const DEFAULT_HOLD_MINUTES = 10;
+const MAX_HOLD_MINUTES = 60;
+
+// Keyed by cell id, so bookings stay with their seats when the layout is resized or cells are moved
+const bookings = new Map<string, Booking>();
+
+function isExpired(booking: Booking, now: number) {
+  return booking.expiresAt !== null && booking.expiresAt <= now;
+}
+
+function releaseExpiredHolds(layout: MapLayoutModel | null) {
+  const now = Date.now();
+  const released: string[] = [];
+
+  for (const [id, booking] of bookings) {
+    if (isExpired(booking, now)) {
+      bookings.delete(id);
+      released.push(id);
+    }
+  }
+
+  if (released.length > 0 && layout !== null) {
+    publish(layout, released, "available");
+  }
+}
+
+// Seat states are pushed by cell index, the index a seat has in the layout right now
+function publish(layout: MapLayoutModel, ids: string[], status: "held" | "booked" | "available") {
+  const patch: SeatStates = {};
+
+  for (const id of ids) {
+    const index = layout.getCellIndexById(id);
+
+    if (index !== -1) {
+      patch[index] = status;
+    }
+  }
+
+  if (Object.keys(patch).length > 0) {
+    publishSeatStates(patch);
+  }
+}
+
+function reject(res: Response, status: number, error: string, unavailable: number[] = []) {
+  res.status(status).json({ error, unavailable });
+}
+
+/**
+ * Registers POST /api/bookings/hold, /confirm and /release. Bodies are { clientId, seats, minutes? },
+ * seats are cell indexes in the layout returned by getLayout. Bookings are kept by the ids of the cells.
+ */
+export function registerBookingRoutes(app: Express, getLayout: () => MapLayoutModel | null, sweepInterval: number = 5000) {
+  setInterval(() => releaseExpiredHolds(getLayout()), sweepInterval);
+
+  // Validates the body and returns the requested seats, or null after responding with 400
+  const readRequest = (body: unknown, res: Response): BookingRequest | null => {
+    const layout = getLayout();
+
+    if (layout === null) {
+      reject(res, 503, "No layout to book seats in");
+
+      return null;
+    }
+
+    const { clientId, seats } = typeof body === "object" && body !== null ? body as Record<string, unknown> : {};
+
+    if (typeof clientId !== "string" || clientId === "") {
+      reject(res, 400, "clientId is required");
+
+      return null;
+    }
+
+    if (!Array.isArray(seats) || seats.length === 0 || !seats.every(Number.isInteger)) {
+      reject(res, 400, "seats must be a non-empty array of cell indexes");
+
+      return null;
+    }
+
+    const uniqueSeats = [...new Set<number>(seats)];
+    const notSeats = uniqueSeats.filter(index => layout.mapLayout.cells[index]?.type !== "seat");
+
+    if (notSeats.length > 0) {
+      reject(res, 400, `Cells ${notSeats.join(", ")} are not seats`);
+
+      return null;
+    }
+
+    const ids = uniqueSeats.map(index => layout.mapLayout.cells[index]?.id);
+    const withoutId = uniqueSeats.filter((_, i) => ids[i] === undefined);
+
+    if (withoutId.length > 0) {
+      reject(res, 400, `Seats ${withoutId.join(", ")} have no id, save the layout to give them one`);
+
+      return null;
+    }
+
+    return { layout, clientId, seats: uniqueSeats, ids: ids as string[] };
+  };
+
+  app.post("/api/bookings/hold", express.json(), (req, res) => {
+    const request = readRequest(req.body, res);
+
+    if (request === null) {
+      return;
+    }
+
+    const minutes = req.body.minutes ?? DEFAULT_HOLD_MINUTES;
+
+    if (typeof minutes !== "number" || minutes <= 0 || minutes > MAX_HOLD_MINUTES) {
+      reject(res, 400, `minutes must be between 0 and ${MAX_HOLD_MINUTES}`);
+
+      return;
+    }
+
+    // A hold that expired before the sweeper ran would otherwise still count as taken
+    releaseExpiredHolds(request.layout);
+
+    // Seats the client already holds get a new expiry, its bookings can't be held again
+    const unavailable = request.seats.filter((index, i) => {
+      const booking = bookings.get(request.ids[i] as string);
+
+      if (booking === undefined) {
+        return getSeatState(index) !== "available";
+      }
+
+      return booking.clientId !== request.clientId || booking.status === "booked";
+    });
+
+    if (unavailable.length > 0) {
+      reject(res, 409, "Seats are taken", unavailable);
+
+      return;
+    }
+
+    const expiresAt = Date.now() + minutes * 60 * 1000;
+
+    for (const id of request.ids) {
+      bookings.set(id, { clientId: request.clientId, status: "held", expiresAt });
+    }
+
+    publish(request.layout, request.ids, "held");
+
+    res.json({ seats: request.seats, expiresAt });
+  });
+
+  app.post("/api/bookings/confirm", express.json(), (req, res) => {
+    const request = readRequest(req.body, res);
+
+    if (request === null) {
+      return;
+    }
+
+    const now = Date.now();
+
+    const notHeld = request.seats.filter((_, i) => {
+      const booking = bookings.get(request.ids[i] as string);
+
+      return booking === undefined || booking.clientId !== request.clientId || booking.status !== "held" || isExpired(booking, now);
+    });
+
+    if (notHeld.length > 0) {
+      reject(res, 409, "Seats must be held by you before they are booked", notHeld);
+
+      return;
+    }
+
+    for (const id of request.ids) {
+      bookings.set(id, { clientId: request.clientId, status: "booked", expiresAt: null });
+    }
+
+    publish(request.layout, request.ids, "booked");
+
+    res.json({ seats: request.seats, expiresAt: null });
+  });
+
+  app.post("/api/bookings/release", express.json(), (req, res) => {
+    const request = readRequest(req.body, res);
+
+    if (request === null) {
+      return;
+    }
+
+    const notOwned = request.seats.filter((_, i) => bookings.get(request.ids[i] as string)?.clientId !== request.clientId);
+
+    if (notOwned.length > 0) {
+      reject(res, 409, "Seats can only be released by whoever holds or booked them", notOwned);
+
+      return;
+    }
+
+    for (const id of request.ids) {
+      bookings.delete(id);
+    }
+
+    publish(request.layout, request.ids, "available");
+
+    res.json({ seats: request.seats, expiresAt: null });
+  });
+}
@@ -0,0 +1,257 @@
+import type { ServerWebSocket } from "bun";
+import type { CollaborationClientMessage, CollaborationRelayMessage } from "../src/CollaborationSession";
+import { CELL_ATTRIBUTES } from "../src/data";
+import { MapLayoutHistory, getResizedOperations, isValidGrid, type MapLayoutHistoryOperation, type MapLayoutResizeOperation } from "../src/MapLayoutHistory";
+import { MapLayoutModel } from "../src/MapLayoutModel";
+import type { RemotePresence } from "../src/types";
+import { validateLayout } from "../src/validateLayout";
+
+// Reference relay for CollaborationSession. Keeps the layout of every room, orders ops and forwards them.
+
+type SocketData = {
+  room: string;
+  clientId: string;
+};
+
+type Room = {
+  layout: MapLayoutModel | null;
+  history: MapLayoutHistory | null;
+  seq: number;
+  resizes: { seq: number, operation: MapLayoutResizeOperation }[]; // applied so far, ops made before them are moved along
+  sockets: Set<ServerWebSocket<SocketData>>;
+  presences: Map<string, RemotePresence>;
+};
+
+const COLORS = ["#E6194B", "#3CB44B", "#4363D8", "#F58231", "#911EB4", "#42D4F4", "#F032E6", "#BFEF45"];
+
+const rooms = new Map<string, Room>();
+let nextClientId = 0;
+
+function getRoom(name: string) {
+  let room = rooms.get(name);
+
+  if (!room) {
+    room = { layout: null, history: null, seq: 0, resizes: [], sockets: new Set(), presences: new Map() };
+    rooms.set(name, room);
+  }
+
+  return room;
+}
+
+function send(ws: ServerWebSocket<SocketData>, message: CollaborationRelayMessage) {
+  ws.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: CollaborationRelayMessage) {
+  for (const ws of room.sockets) {
+    send(ws, message);
+  }
+}
+
+function welcome(ws: ServerWebSocket<SocketData>, room: Room) {
+  send(ws, {
+    type: "welcome",
+    clientId: ws.data.clientId,
+    seq: room.seq,
+    layout: room.layout?.exportMapLayout() ?? null,
+    peers: [...room.presences.values()].filter(presence => presence.clientId !== ws.data.clientId)
+  });
+}
+
+// Followed op by op, since a resize changes which cell indexes exist for the ops after it
+function isValidOperations(operations: unknown, layout: MapLayoutModel): operations is MapLayoutHistoryOperation[] {
+  let { x, y } = layout.mapLayout;
+
+  const isIndexes = (index: unknown) => Array.isArray(index) &&
+    index.every(cellIndex => Number.isInteger(cellIndex) && cellIndex >= 0 && cellIndex < x * y);
+
+  return Array.isArray(operations) && operations.every(operation => {
+    if (typeof operation !== "object" || operation === null || !Array.isArray(operation.index)) {
+      return false;
+    }
+
+    if (operation.action === "resize") {
+      const { was, became } = operation;
+
+      if (operation.index.length !== 0 || !isValidGrid(was, became) || !isValidGrid(became, was) || was.x !== x || was.y !== y) {
+        return false;
+      }
+
+      ({ x, y } = became);
+
+      return true;
+    }
+
+    // Checked by the rules of a layout, every editor looks up rows in the sections
+    if (operation.action === "sections") {
+      return Array.isArray(operation.was) && Array.isArray(operation.became) && operation.index.length === 0 &&
+        validateLayout({ x: 1, y: 1, cells: [null], sections: operation.became }).valid;
+    }
+
+    const isValues = (values: unknown) => Array.isArray(values) && values.length === operation.index.length;
+
+    if (!isIndexes(operation.index) || !isValues(operation.was) || !isValues(operation.became)) {
+      return false;
+    }
+
+    if (operation.action === "swapCells") {
+      return operation.became.length === 0 || validateLayout({ x: operation.became.length, y: 1, cells: operation.became }).valid;
+    }
+
+    return operation.action === "changeAttribute" && CELL_ATTRIBUTES.includes(operation.attribute);
+  });
+}
+
+// Every editor that joins builds a MapLayoutModel of the room's layout, which must therefore stay valid
+function isValidResult(operations: MapLayoutHistoryOperation[], layout: MapLayoutModel) {
+  try {
+    const result = new MapLayoutModel(layout.exportMapLayout());
+
+    new MapLayoutHistory(result.mapLayout).applyOperations(operations);
+
+    return validateLayout(result.exportMapLayout()).valid;
+  } catch {
+    return false;
+  }
+}
+
+// Presences are drawn by every editor, a malformed one would break their rendering
+function isValidPresence(message: any, layout: MapLayoutModel): boolean {
+  const { x, y } = layout.mapLayout;
+
+  const isCursor = message.cursor === null ||
+    (Array.isArray(message.cursor) && message.cursor.length === 2 && message.cursor.every(Number.isInteger));
+
+  const isSelection = Array.isArray(message.selection) &&
+    message.selection.every((index: unknown) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < x * y);
+
+  return isCursor && isSelection;
+}
+
+export function startCollaborationRelay(port: number) {
+  Bun.serve<SocketData>({
+    port,
+    fetch(req, server) {
+      const room = new URL(req.url).searchParams.get("room") || "default";
+
+      if (server.upgrade(req, { data: { room, clientId: `${nextClientId++}` } })) {
+        return;
+      }
+
+      return new Response("Expected a WebSocket connection", { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        const room = getRoom(ws.data.room);
+
+        room.sockets.add(ws);
+        welcome(ws, room);
+      },
+      message(ws, data) {
+        const room = getRoom(ws.data.room);
+        let message: CollaborationClientMessage;
+
+        try {
+          message = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+
+        if (message.type === "init") {
+          // Two editors may join an empty room at once, the second gets the first one's layout
+          if (room.layout !== null) {
+            welcome(ws, room);
+
+            return;
+          }
+
+          try {
+            room.layout = new MapLayoutModel(message.layout);
+            room.history = new MapLayoutHistory(room.layout.mapLayout);
+          } catch (error) {
+            console.error("Rejected collaboration layout", error);
+
+            send(ws, { type: "reject", clientOpId: null });
+          }
+        } else if (message.type === "op") {
+          // The sender keeps a rejected op pending until told, and would apply it again after every remote op
+          const reject = () => send(ws, { type: "reject", clientOpId: message.clientOpId });
+
+          if (room.layout === null || room.history === null) {
+            reject();
+
+            return;
+          }
+
+          if (!Number.isInteger(message.seq) || !Array.isArray(message.operations)) {
+            reject();
+
+            return;
+          }
+
+          let operations: MapLayoutHistoryOperation[];
+
+          // Ops made before a resize was received hold cell indexes from before it
+          try {
+            operations = room.resizes
+              .filter(resize => resize.seq > message.seq)
+              .reduce((moved, resize) => getResizedOperations(moved, resize.operation), message.operations);
+          } catch {
+            reject();
+
+            return;
+          }
+
+          if (!isValidOperations(operations, room.layout) || !isValidResult(operations, room.layout)) {
+            reject();
+
+            return;
+          }
+
+          const seq = ++room.seq;
+
+          room.history.applyOperations(operations);
+
+          for (const operation of operations) {
+            if (operation.action === "resize") {
+              room.resizes.push({ seq, operation });
+            }
+          }
+
+          broadcast(room, {
+            type: "op",
+            seq,
+            clientId: ws.data.clientId,
+            clientOpId: message.clientOpId,
+            operations
+          });
+        } else if (message.type === "presence") {
+          if (room.layout === null || !isValidPresence(message, room.layout)) {
+            return;
+          }
+
+          const presence: RemotePresence = {
+            clientId: ws.data.clientId,
+            name: String(message.name).slice(0, 40),
+            color: COLORS[Number(ws.data.clientId) % COLORS.length] as string,
+            cursor: message.cursor,
+            selection: message.selection
+          };
+
+          room.presences.set(ws.data.clientId, presence);
+          broadcast(room, { type: "presence", presence });
+        }
+      },
+      close(ws) {
+        const room = getRoom(ws.data.room);
+
+        room.sockets.delete(ws);
+        room.presences.delete(ws.data.clientId);
+
+        broadcast(room, { type: "leave", clientId: ws.data.clientId });
+      }
+    }
+  });
+
+  console.log(`Collaboration relay listening on port ${port}...`);
+}
@@ -1,24 +1,136 @@
-import Map from "https://cdn.jsdelivr.net/npm/platskarta/dist/browser/Map.js";
+import Map, { CollaborationSession, HTTPBookingClient, SSESeatAvailabilityAdapter, WebSocketSeatAvailabilityAdapter } from "/Map.js";
 
 const isEditing = window.location.pathname.includes("edit");
 
 if (isEditing) {
-    const map = new Map("edit", "map", {
+    // Layouts are stored by demo/layoutStore.ts, /edit?layout=<name> edits another layout than "demo"
+    const layoutName = new URLSearchParams(window.location.search).get("layout") || "demo";
+    const layoutUrl = `/api/layouts/${encodeURIComponent(layoutName)}`;
+
+    let layout = {
         x: 76,
         y: 33,
         cells: new Array(2508).fill(null),
-    }, "edit-menu", "toolbelt");
+    };
+    // Revision the editor's changes are based on, 0 until the layout has been saved once
+    let revision = 0;
+
+    try {
+        const response = await fetch(layoutUrl);
 
-    map.on("select", (cellIndex) => {
-        console.log(`You selected cell ${cellIndex}`);
+        if (response.ok) {
+            ({ layout, revision } = await response.json());
+        } else if (response.status !== 404) {
+            console.error(`Could not load layout ${layoutName}`, await response.text());
+        }
+    } catch (error) {
+        console.error(`Could not load layout ${layoutName}`, error);
+    }
+
+    const map = new Map("edit", "map", layout, "edit-menu", "toolbelt", [], {
+        // Snapshots of unsaved changes, kept per layout so another layout's changes are never offered for restore
+        autosave: { key: `platskarta-autosave:${layoutName}` }
     });
-    map.on("save", () => {
-        alert("You saved the map!");
+
+    map.on("selectionchange", (cellIndexes) => {
+        console.log(`You selected cells ${cellIndexes.join(", ")}`);
+    });
+    map.on("selectionidschange", (ids) => {
+        console.log(`Selected cell ids: ${ids.join(", ")}`);
+    });
+    // Open /edit?collab=<name> in two tabs to edit together through the relay in server.ts
+    const collaboratorName = new URLSearchParams(window.location.search).get("collab");
+
+    if (collaboratorName !== null) {
+        new CollaborationSession(map, `ws://${window.location.hostname}:8081?room=demo`, { name: collaboratorName || "Editor" });
+    }
+
+    const saveLayout = async (savedLayout) => {
+        const response = await fetch(layoutUrl, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ layout: savedLayout, revision })
+        });
+        const body = await response.json();
+
+        if (response.ok) {
+            revision = body.revision;
+
+            alert(`Kartan sparades (version ${revision}).`);
+        } else if (response.status === 409) {
+            if (confirm("Kartan har ändrats av någon annan sedan den laddades. Vill du skriva över deras ändringar?")) {
+                revision = body.revision;
+
+                await saveLayout(savedLayout);
+            }
+        } else {
+            alert(`Kartan kunde inte sparas: ${body.error}${body.errors ? "\n" + body.errors.map(error => `${error.path}: ${error.message}`).join("\n") : ""}`);
+        }
+    };
+
+    map.on("save", (savedLayout) => {
+        saveLayout(savedLayout).catch(error => {
+            console.error("Could not save layout", error);
+
+            alert("Kartan kunde inte sparas.");
+        });
     });
 } else {
-    const map = new Map("view", "map", {"x":76,"y":33,"cells":["35",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":false,"borderBottom":false}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":false,"borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":false}},"69",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"69",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true,"borderTop":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderLeft":false,"borderRight":false,"borderTop":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true,"borderLeft":false,"borderTop":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"65",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":true},"name":"wall"},"2",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2b2b2b"}},{"type":"aisle","styleOverride":{"borderWidth":"0","backgroundColor":"#2b2b2b","borderColor":"transparent"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true},"name":"wall"},"1",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","text":"Aktivitetsrum","backgroundColor":"#00A576","textFont":"goldman","textWeight":"bold","textSize":"18","opacity":"1","textRotationDegrees":"90","textTranslateY":"","textTranslateX":"-12.5"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2b2b2b"}},{"type":"aisle","styleOverride":{"borderWidth":"0","backgroundColor":"#2b2b2b","borderColor":"transparent"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2b2b2b"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","backgroundColor":"#2b2b2b","borderColor":"transparent"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderLeft":true,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2b2b2b"}},{"type":"aisle","styleOverride":{"borderWidth":"0","backgroundColor":"#2b2b2b","borderColor":"transparent"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderLeft":true,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":false,"borderLeft":true,"borderBottom":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderLeft":false,"borderRight":false,"borderBottom":true}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","opacity":"1","borderRight":true,"borderLeft":false,"borderBottom":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true}},"65",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderRight":true,"borderBottom":true},"name":"wall"},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderLeft":true,"borderRight":true,"borderBottom":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","borderBottom":true,"opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","borderBottom":true,"opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","borderBottom":true,"opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","borderBottom":true,"opacity":"1"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","borderBottom":true,"opacity":"1"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true,"borderLeft":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":true}},"48",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","text":"KIOSK","textFont":"League spartan","textWeight":"bold","textTranslateX":"15","textSize":"16"}},{"type":"aisle","styleOverride":{"borderWidth":"0","backgroundColor":"#2b2b2b","borderColor":"transparent"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"1","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"4","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"1","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"1","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"2","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"3","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"1","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"2","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"3","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"4","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"5","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"6","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"7","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"8","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"name":"9","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"10","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"11","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":true,"borderBottom":false,"borderLeft":true,"borderRight":false}},{"name":"12","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":true,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":true,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":true,"borderBottom":false,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"17","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"18","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"19","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"13","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"12","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"13","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"14","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"9","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"10","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"11","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"12","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"13","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"14","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"15","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"16","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"name":"21","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"22","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"23","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":true,"borderRight":false}},{"name":"24","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"#2b2b2b"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"25","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"26","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"27","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"28","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"29","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"30","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"31","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"32","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"33","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"34","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"35","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":true,"borderRight":false}},{"name":"36","type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","text":"MAINSTAGE","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false,"textFont":"Goldman","textWeight":"bold","textSize":"20","textTranslateX":"-13","textTranslateY":"11"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":true,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"25","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"17","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"18","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"19","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"20","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"21","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"22","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"23","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"textFont":"League Spartan"}},{"name":"24","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":false,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":true,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":false,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"41","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"20","type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"25","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"26","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"27","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"28","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"29","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"30","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"31","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan"}},{"name":"32","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":true,"borderLeft":true,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":true,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":true,"borderLeft":false,"borderRight":false}},{"type":"aisle","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#00A576","borderTop":false,"borderBottom":true,"borderLeft":false,"borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"seat","styleOverride":{"borderWidth":"1","borderColor":"black","backgroundColor":"#f16028","borderTop":true,"borderBottom":true,"borderLeft":true,"borderRight":true,"textFont":"League Spartan","text":"45"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderLeft":true},"name":"wall"},"47",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"48"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"50"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"51"},{"name":"33","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":false}},{"name":"34","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true,"borderLeft":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderWidth":"1","borderColor":"white","borderBottom":false,"borderTop":true},"name":"wall"},"48",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"name":"35","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":false}},{"name":"36","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":true}},{"type":"aisle","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"name":"37","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":false}},{"name":"38","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":true}},{"type":"wall","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"name":"39","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":false}},{"name":"40","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":true}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"name":"41","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":false}},{"name":"42","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"},"name":"49"},{"name":"43","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true,"textFont":"League Spartan","borderRight":true}},{"name":"44","type":"seat","styleOverride":{"borderColor":"black","backgroundColor":"#f16028","borderWidth":"1","borderTop":false,"borderBottom":true,"borderLeft":true,"borderRight":true,"textFont":"League Spartan"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true,"borderLeft":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},"65",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B","text":"KLÄDHÄNGARE","textFont":"League Spartan","textWeight":"bold"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderLeft":true,"borderRight":true},"name":"wall"},{"type":"door","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true,"borderRight":false,"borderLeft":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true,"borderBottom":true,"borderRight":true},"name":"wall"},{"type":"door","styleOverride":{"backgroundColor":"#2B2B2B","borderColor":"transparent","borderWidth":"0"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderLeft":true,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","text":"WC","backgroundColor":"#2B2B2B","textFont":"league spartan","textWeight":"bold"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"64",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderLeft":true,"borderRight":true},"name":"wall"},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"aisle","styleOverride":{"borderWidth":"0","borderColor":"transparent","backgroundColor":"#2B2B2B"}},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":false,"borderBottom":false,"borderLeft":true},"name":"wall"},"65",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},"1",{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},{"type":"wall","styleOverride":{"backgroundColor":"transparent","borderColor":"white","borderWidth":"1","borderTop":true},"name":"wall"},"111"]});
+    // The venue is stored by demo/layoutStore.ts, seeded from demo/layouts/venue.json
+    const { layout } = await fetch("/api/layouts/venue").then(response => response.json());
 
-    map.on("select", (cellIndex) => {
-        alert(`You selected cell ${cellIndex}`);
+    // Every tab books as its own client, open two tabs and book the same seats to test races
+    let clientId = sessionStorage.getItem("platskarta-client-id");
+
+    if (clientId === null) {
+        clientId = Math.random().toString(36).slice(2);
+        sessionStorage.setItem("platskarta-client-id", clientId);
+    }
+
+    const map = new Map("view", "map", layout, undefined, undefined, [], {
+        booking: new HTTPBookingClient("/api/bookings", clientId),
+        selection: {
+            maxSelected: 4,
+            requireAdjacent: true
+        }
+    });
+
+    map.on("selectionchange", (cellIndexes) => {
+        console.log(`You selected cells ${cellIndexes.join(", ")}`);
     });
+    map.on("selectionidschange", (ids) => {
+        console.log(`Selected cell ids: ${ids.join(", ")}`);
+    });
+
+    // Live seat states from demo/seatAvailability.ts, /view?ws uses WebSocket instead of server-sent events
+    const availability = new URLSearchParams(window.location.search).has("ws")
+        ? new WebSocketSeatAvailabilityAdapter(`ws://${window.location.hostname}:8082`)
+        : new SSESeatAvailabilityAdapter("/availability/events");
+
+    map.connectSeatAvailability(availability);
+
+    const status = document.getElementById("booking-status");
+
+    const showResult = (result) => {
+        if (!result.ok) {
+            status.textContent = result.unavailable.length > 0 ? "Någon annan hann före till några av platserna." : result.error;
+        } else if (result.expiresAt !== null) {
+            status.textContent = `Platserna hålls till ${new Date(result.expiresAt).toLocaleTimeString()}.`;
+        }
+    };
+
+    map.on("bookingchange", (ownSeats) => {
+        const held = Object.values(ownSeats).filter(seatStatus => seatStatus === "held").length;
+        const booked = Object.values(ownSeats).filter(seatStatus => seatStatus === "booked").length;
+
+        if (held === 0 && booked === 0) {
+            status.textContent = "";
+        } else {
+            status.textContent = `${held} hållna, ${booked} bokade platser.`;
+        }
+    });
+
+    document.getElementById("hold-seats").addEventListener("click", async () => showResult(await map.holdSelectedSeats(2))); // Short holds to see the sweeper release them
+    document.getElementById("confirm-booking").addEventListener("click", async () => showResult(await map.confirmBooking()));
+    document.getElementById("release-seats").addEventListener("click", async () => showResult(await map.releaseSeats()));
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import { MapLayoutModel } from "../src/MapLayoutModel";
+import { migrateLayout } from "../src/migrations";
+import type { MapLayoutInput } from "../src/types";
+import { validateLayout } from "../src/validateLayout";
+
+// Reference backend for storing named layouts, one JSON file per layout.
+// Every write bumps the revision, writes based on an older revision are rejected with 409 so concurrent
+// editors can't overwrite each other's changes without noticing.
+
+type StoredLayout = {
+  name: string;
+  revision: number;
+  updatedAt: string;
+  layout: MapLayoutInput;
+};
+
+const LAYOUT_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+function layoutPath(directory: string, name: string) {
+  return path.join(directory, `${name}.json`);
+}
+
+function readLayout(directory: string, name: string): StoredLayout | null {
+  try {
+    return JSON.parse(fs.readFileSync(layoutPath(directory, name)).toString());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Could not read layout ${name}`, error);
+    }
+
+    return null;
+  }
+}
+
+function writeLayout(directory: string, stored: StoredLayout) {
+  const file = layoutPath(directory, stored.name);
+
+  // Written to a temporary file first so a crash never leaves half a layout behind
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(stored));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// Bookings are kept by cell id, so every stored cell has one
+function withCellIds(input: MapLayoutInput) {
+  const model = new MapLayoutModel(input);
+
+  model.assignMissingCellIds();
+
+  return model.exportMapLayout();
+}
+
+/**
+ * Returns the stored layout with the given name, or null if there is none.
+ */
+export function loadStoredLayout(directory: string, name: string): MapLayoutModel | null {
+  const stored = readLayout(directory, name);
+
+  return stored === null ? null : new MapLayoutModel(stored.layout);
+}
+
+// Layouts in seedDirectory are stored as revision 1 the first time the server starts, e.g. the venue used by the view page
+function seedLayouts(directory: string, seedDirectory: string) {
+  for (const file of fs.readdirSync(seedDirectory).filter(file => file.endsWith(".json"))) {
+    const name = file.slice(0, -".json".length);
+
+    if (readLayout(directory, name) !== null) {
+      continue;
+    }
+
+    const layout = JSON.parse(fs.readFileSync(path.join(seedDirectory, file)).toString());
+
+    writeLayout(directory, {
+      name,
+      revision: 1,
+      updatedAt: new Date().toISOString(),
+      layout: withCellIds(layout)
+    });
+  }
+}
+
+export function registerLayoutRoutes(app: Express, directory: string, seedDirectory?: string) {
+  fs.mkdirSync(directory, { recursive: true });
+
+  if (seedDirectory) {
+    seedLayouts(directory, seedDirectory);
+  }
+
+  app.get("/api/layouts", (req, res) => {
+    const layouts = fs.readdirSync(directory)
+      .filter(file => file.endsWith(".json"))
+      .map(file => readLayout(directory, file.slice(0, -".json".length)))
+      .filter(stored => stored !== null)
+      .map(({ name, revision, updatedAt }) => ({ name, revision, updatedAt }));
+
+    res.json(layouts);
+  });
+
+  app.get("/api/layouts/:name", (req, res) => {
+    const stored = LAYOUT_NAME.test(req.params.name) ? readLayout(directory, req.params.name) : null;
+
+    if (stored === null) {
+      res.status(404).json({ error: `No layout named ${req.params.name}` });
+
+      return;
+    }
+
+    res.json(stored);
+  });
+
+  // Body is { layout, revision }, revision is the one the change is based on and is left out when creating a layout
+  app.put("/api/layouts/:name", express.json({ limit: "10mb" }), (req, res) => {
+    const { name } = req.params;
+
+    if (!LAYOUT_NAME.test(name)) {
+      res.status(400).json({ error: "Layout names may only contain letters, digits, - and _" });
+
+      return;
+    }
+
+    const revision = req.body?.revision ?? 0;
+
+    if (!Number.isInteger(revision) || revision < 0) {
+      res.status(400).json({ error: "Revision must be a non-negative integer" });
+
+      return;
+    }
+
+    const current = readLayout(directory, name);
+
+    if (revision !== (current?.revision ?? 0)) {
+      res.status(409).json({ error: "Layout was changed since it was loaded", revision: current?.revision ?? 0 });
+
+      return;
+    }
+
+    let layout: MapLayoutInput;
+
+    try {
+      const input = migrateLayout(req.body?.layout);
+      const { errors } = validateLayout(input);
+
+      if (errors.length > 0) {
+        res.status(400).json({ error: "Invalid map layout", errors });
+
+        return;
+      }
+
+      layout = withCellIds(input);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+
+      return;
+    }
+
+    const stored: StoredLayout = {
+      name,
+      revision: revision + 1,
+      updatedAt: new Date().toISOString(),
+      layout
+    };
+
+    writeLayout(directory, stored);
+
+    res.status(current === null ? 201 : 200).json(stored);
+  });
+
+  // ?revision=<n> is required, so a layout is never deleted by someone who hasn't seen its latest changes
+  app.delete("/api/layouts/:name", (req, res) => {
+    const { name } = req.params;
+    const current = LAYOUT_NAME.test(name) ? readLayout(directory, name) : null;
+
+    if (current === null) {
+      res.status(404).json({ error: `No layout named ${name}` });
+
+      return;
+    }
+
+    if (Number(req.query.revision) !== current.revision) {
+      res.status(409).json({ error: "Layout was changed since it was loaded", revision: current.revision });
+
+      return;
+    }
+
+    fs.unlinkSync(layoutPath(directory, name));
+
+    res.status(204).end();
+  });
+}
@@ -0,0 +1,106 @@
+import type { ServerWebSocket } from "bun";
+import express, { type Express, type Response } from "express";
+import type { MapCellPatch, SeatState, SeatStates } from "../src/types";
+
+// Reference endpoints for the seat availability adapters. Keeps seat states in memory and pushes every change
+// to viewers over server-sent events and WebSocket. Every new connection starts with a full snapshot.
+
+const SEAT_STATES: SeatState[] = ["available", "held", "booked", "blocked", "mine"];
+
+const seatStates: SeatStates = {};
+const eventStreams = new Set<Response>();
+const sockets = new Set<ServerWebSocket<unknown>>();
+
+function snapshot(): MapCellPatch {
+  return { seatStates, replaceSeatStates: true };
+}
+
+export function getSeatState(cellIndex: number): SeatState {
+  return seatStates[cellIndex] ?? "available";
+}
+
+/**
+ * Updates seat states and pushes the change to every connected viewer.
+ */
+export function publishSeatStates(patch: SeatStates) {
+  for (const key in patch) {
+    const seatState = patch[key];
+
+    if (seatState === "available") {
+      delete seatStates[key];
+    } else if (seatState !== undefined) {
+      seatStates[key] = seatState;
+    }
+  }
+
+  const message = JSON.stringify({ seatStates: patch } satisfies MapCellPatch);
+
+  for (const res of eventStreams) {
+    res.write(`data: ${message}\n\n`);
+  }
+
+  for (const ws of sockets) {
+    ws.send(message);
+  }
+}
+
+export function registerSeatAvailabilityRoutes(app: Express) {
+  app.get("/availability/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+
+    res.write(`data: ${JSON.stringify(snapshot())}\n\n`);
+    eventStreams.add(res);
+
+    req.on("close", () => {
+      eventStreams.delete(res);
+    });
+  });
+
+  // Body is { [cellIndex]: SeatState }, e.g. curl -X POST -H "Content-Type: application/json" -d '{"120":"booked"}'
+  app.post("/availability", express.json(), (req, res) => {
+    const patch: SeatStates = {};
+
+    for (const key in req.body) {
+      if (!/^\d+$/.test(key) || !SEAT_STATES.includes(req.body[key])) {
+        res.status(400).json({ error: `Invalid seat state for ${key}` });
+
+        return;
+      }
+
+      patch[Number(key)] = req.body[key];
+    }
+
+    publishSeatStates(patch);
+
+    res.json(seatStates);
+  });
+}
+
+export function startSeatAvailabilitySocket(port: number) {
+  Bun.serve({
+    port,
+    fetch(req, server) {
+      if (server.upgrade(req, { data: undefined })) {
+        return;
+      }
+
+      return new Response("Expected a WebSocket connection", { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        sockets.add(ws);
+        ws.send(JSON.stringify(snapshot()));
+      },
+      message() { },
+      close(ws) {
+        sockets.delete(ws);
+      }
+    }
+  });
+
+  console.log(`Seat availability socket listening on port ${port}...`);
+}
@@ -1,5 +1,9 @@
 import express from "express";
 import fs from "fs";
+import { startCollaborationRelay } from "./collaborationRelay";
+import { registerBookingRoutes } from "./bookings";
+import { loadStoredLayout, registerLayoutRoutes } from "./layoutStore";
+import { registerSeatAvailabilityRoutes, startSeatAvailabilitySocket } from "./seatAvailability";
 
 const app = express();
 const port = 8080;
@@ -26,10 +30,18 @@ app.get("/Map.js", (req, res) => {
   res.contentType("application/javascript").send(map.toString());
 });
 
+registerSeatAvailabilityRoutes(app);
+registerLayoutRoutes(app, __dirname + "/data/layouts", __dirname + "/layouts");
+// Bookings are made in the venue shown by the view page, it can be changed at /edit?layout=venue
+registerBookingRoutes(app, () => loadStoredLayout(__dirname + "/data/layouts", "venue"));
+
 app.get("/index.css", (req, res) => {
   res.sendFile(__dirname + "/css/index.css");
 });
 
 app.listen(port, () => {
   console.log(`Listening on port ${port}...`);
-});
\ No newline at end of file
+});
+
+startCollaborationRelay(8081);
+startSeatAvailabilitySocket(8082);
\ No newline at end of file
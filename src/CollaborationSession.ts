@@ -0,0 +1,340 @@
+import { DEFAULT_COLLABORATION_OPTIONS } from "./data";
+import type Map from "./Map";
+import { getResizedOperations, type MapLayoutHistoryOperation } from "./MapLayoutHistory";
+import type { CollaborationOptions, MapLayoutInput, RemotePresence } from "./types";
+import { EventEmitter } from "./util";
+
+// Messages sent by an editor to the relay
+export type CollaborationClientMessage = {
+    type: "init",
+    layout: MapLayoutInput
+} | {
+    type: "op",
+    clientOpId: number,
+    seq: number, // last op of the relay the ops were made after, the relay moves them along with the resizes since
+    operations: MapLayoutHistoryOperation[]
+} | {
+    type: "presence",
+    name: string,
+    cursor: [number, number] | null,
+    selection: number[]
+}
+
+// Messages sent by the relay to every editor in a room
+export type CollaborationRelayMessage = {
+    type: "welcome",
+    clientId: string,
+    seq: number,
+    layout: MapLayoutInput | null, // null when the room is empty and waits for an init
+    peers: RemotePresence[]
+} | {
+    type: "op",
+    seq: number, // order the relay applied the op in, which is the order every editor ends up agreeing on
+    clientId: string,
+    clientOpId: number,
+    operations: MapLayoutHistoryOperation[]
+} | {
+    type: "presence",
+    presence: RemotePresence
+} | {
+    type: "leave",
+    clientId: string
+} | {
+    type: "reject", // sent only to the editor whose op or init the relay didn't accept
+    clientOpId: number | null // null for an init
+}
+
+type PendingOperation = {
+    clientOpId: number;
+    seq: number;
+    operations: MapLayoutHistoryOperation[];
+}
+
+// The operations that undo the given ones, in the order to apply them
+function invertOperations(operations: MapLayoutHistoryOperation[]) {
+    return operations
+        .map(operation => ({ ...operation, was: operation.became, became: operation.was }) as MapLayoutHistoryOperation)
+        .reverse();
+}
+
+/**
+ * Keeps an editing map in sync with other editors through a relay over WebSocket.
+ * Every local history change is sent as an op, the relay orders ops and sends them to every editor.
+ * The op the relay orders last wins. Local ops the relay hasn't acknowledged yet will be ordered after the remote
+ * ops received until then, so remote ops are applied beneath them: the local ops are undone, the remote ops applied
+ * and the local ops applied again, just like the relay does.
+ */
+export class CollaborationSession extends EventEmitter<{ connected: string, disconnected: void, peerschange: RemotePresence[] }> {
+    map: Map;
+    url: string;
+    options: CollaborationOptions;
+
+    socket: WebSocket | null = null;
+    clientId: string | null = null;
+    seq: number = 0;
+
+    private pending: PendingOperation[] = [];
+    private nextClientOpId: number = 0;
+    private peers: Record<string, RemotePresence> = {};
+    private presence: { cursor: [number, number] | null, selection: number[] } = { cursor: null, selection: [] };
+    private presenceTimeout: ReturnType<typeof setTimeout> | null = null;
+    private closed: boolean = false;
+
+    constructor(map: Map, url: string, options: Partial<CollaborationOptions> = {}) {
+        super();
+
+        this.map = map;
+        this.url = url;
+        this.options = { ...DEFAULT_COLLABORATION_OPTIONS, ...options };
+
+        this.map.on("historychange", change => {
+            const pending = { clientOpId: this.nextClientOpId++, seq: this.seq, operations: change.operations };
+
+            this.pending.push(pending);
+            this.send({ type: "op", ...pending });
+        });
+
+        this.map.on("selectionchange", cellIndexes => {
+            this.presence.selection = cellIndexes;
+            this.sendPresence();
+        });
+
+        // Whole layout pixels are precise enough for other editors
+        this.map.on("cursormove", cursor => {
+            this.presence.cursor = cursor === null ? null : [Math.round(cursor[0]), Math.round(cursor[1])];
+            this.sendPresence();
+        });
+
+        this.connect();
+    }
+
+    private connect() {
+        this.socket = new WebSocket(this.url);
+
+        this.socket.addEventListener("message", event => {
+            try {
+                this.handleMessage(JSON.parse(event.data));
+            } catch (error) {
+                console.error("Could not handle collaboration message.", error);
+            }
+        });
+
+        this.socket.addEventListener("close", () => {
+            this.clientId = null;
+            this.peers = {};
+            this.map.setRemotePresences([]);
+
+            this.emit("disconnected", undefined);
+
+            if (!this.closed) {
+                setTimeout(() => this.connect(), this.options.reconnectDelay);
+            }
+        });
+    }
+
+    /**
+     * Leaves the session, local changes are no longer sent and remote ones no longer received.
+     */
+    close() {
+        this.closed = true;
+        this.socket?.close();
+    }
+
+    private send(message: CollaborationClientMessage) {
+        // Ops made while disconnected stay pending and are sent on the next welcome
+        if (this.clientId === null || this.socket?.readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        this.socket.send(JSON.stringify(message));
+    }
+
+    private sendPresence() {
+        if (this.presenceTimeout !== null) {
+            return;
+        }
+
+        this.presenceTimeout = setTimeout(() => {
+            this.presenceTimeout = null;
+
+            this.send({ type: "presence", name: this.options.name, ...this.presence });
+        }, this.options.presenceInterval);
+    }
+
+    private handleMessage(message: CollaborationRelayMessage) {
+        if (message.type === "welcome") {
+            this.handleWelcome(message);
+        } else if (message.type === "op") {
+            this.seq = message.seq;
+
+            if (message.clientId === this.clientId) {
+                this.pending = this.pending.filter(pending => pending.clientOpId !== message.clientOpId);
+            } else {
+                this.applyRemoteOperations(message.operations, message.seq);
+            }
+        } else if (message.type === "presence") {
+            if (message.presence.clientId !== this.clientId) {
+                this.peers[message.presence.clientId] = message.presence;
+                this.updatePeers();
+            }
+        } else if (message.type === "leave") {
+            delete this.peers[message.clientId];
+            this.updatePeers();
+        } else if (message.type === "reject") {
+            this.handleReject(message.clientOpId);
+        }
+    }
+
+    private handleReject(clientOpId: number | null) {
+        // Nobody else can join a room without a layout, and this layout will never be accepted
+        if (clientOpId === null) {
+            console.error("The collaboration relay rejected the layout, leaving the session.");
+
+            this.close();
+
+            return;
+        }
+
+        const rejected = this.pending.find(pending => pending.clientOpId === clientOpId);
+
+        if (rejected === undefined) {
+            return;
+        }
+
+        console.error("The collaboration relay rejected a change, it is reverted.");
+
+        // Reverted beneath the other pending ops, as if it had never been made
+        this.undoPending();
+        this.pending = this.pending.filter(pending => pending !== rejected);
+        this.reapplyPending();
+
+        this.map.history.rebase(invertOperations(rejected.operations));
+
+        if (this.map.mode === "edit") {
+            this.map.editMenu?.selectCells(this.map.getSelectedCells());
+        }
+
+        this.map.render(true);
+    }
+
+    private handleWelcome(message: CollaborationRelayMessage & { type: "welcome" }) {
+        this.clientId = message.clientId;
+        this.seq = message.seq;
+
+        if (message.layout === null) {
+            this.send({ type: "init", layout: this.map.exportMapLayout() });
+        } else {
+            // The room's layout replaces ours, ops not yet acknowledged are applied again on top of it
+            this.map.switchLayout(message.layout);
+            this.reapplyPending();
+            this.map.render(true);
+        }
+
+        for (const pending of this.pending) {
+            this.send({ type: "op", ...pending });
+        }
+
+        this.peers = {};
+
+        for (const peer of message.peers) {
+            this.peers[peer.clientId] = peer;
+        }
+
+        this.updatePeers();
+        this.sendPresence();
+
+        this.emit("connected", message.clientId);
+    }
+
+    // Applies an op the way the relay does, attribute changes to cells that don't exist are skipped.
+    // Returns the op as it was applied, with was read from the layout so it can be undone exactly
+    private applyOperation(operation: MapLayoutHistoryOperation): MapLayoutHistoryOperation {
+        const { mapLayout } = this.map.history;
+        let applied: MapLayoutHistoryOperation;
+
+        if (operation.action === "resize") {
+            applied = { ...operation, was: { ...operation.was, x: mapLayout.x, y: mapLayout.y, cells: structuredClone(mapLayout.cells) } };
+        } else if (operation.action === "sections") {
+            applied = { ...operation, was: structuredClone(mapLayout.sections) };
+        } else if (operation.action === "swapCells") {
+            applied = { ...operation, was: operation.index.map(cellIndex => structuredClone(mapLayout.cells[cellIndex] ?? null)) };
+        } else {
+            const keep = operation.index.map(cellIndex => mapLayout.cells[cellIndex] !== null && mapLayout.cells[cellIndex] !== undefined);
+            const index = operation.index.filter((_, i) => keep[i]);
+
+            applied = {
+                ...operation,
+                index,
+                was: index.map(cellIndex => structuredClone(mapLayout.cells[cellIndex]?.[operation.attribute])),
+                became: operation.became.filter((_, i) => keep[i])
+            };
+        }
+
+        this.map.history.applyOperations([applied]);
+
+        return applied;
+    }
+
+    private undoPending() {
+        this.map.history.applyOperations(invertOperations(this.pending.flatMap(pending => pending.operations)));
+    }
+
+    private reapplyPending() {
+        for (const pending of this.pending) {
+            pending.operations = pending.operations.map(operation => this.applyOperation(operation));
+        }
+    }
+
+    private applyRemoteOperations(operations: MapLayoutHistoryOperation[], seq: number) {
+        const applied: MapLayoutHistoryOperation[] = [];
+        let resized = false;
+        let sectionsChanged = false;
+
+        this.undoPending();
+
+        // Applied one by one, whether an attribute change applies depends on the ops before it
+        for (const operation of operations) {
+            const appliedOperation = this.applyOperation(operation);
+
+            applied.push(appliedOperation);
+            sectionsChanged ||= appliedOperation.action === "sections";
+
+            // Local ops hold cell indexes from before the resize, the relay moves them the same way
+            if (appliedOperation.action === "resize") {
+                resized = true;
+
+                for (const pending of this.pending) {
+                    pending.operations = getResizedOperations(pending.operations, appliedOperation);
+                    pending.seq = seq;
+                }
+            }
+        }
+
+        this.reapplyPending();
+        // Undoing must neither revert the remote ops nor use cell indexes from before a remote resize
+        this.map.history.rebase(applied);
+
+        const changedCells = applied.flatMap(operation => operation.index);
+
+        if (changedCells.length === 0 && !resized && !sectionsChanged) {
+            return;
+        }
+
+        const selection = this.map.getSelectedCells();
+
+        // Keep the edit menu showing the current values of the selected cells
+        if (this.map.mode === "edit" && (resized || sectionsChanged || selection.some(cellIndex => changedCells.includes(cellIndex)))) {
+            this.map.editMenu?.selectCells(selection);
+        }
+
+        this.map.render(true);
+    }
+
+    private updatePeers() {
+        const peers = Object.values(this.peers);
+
+        this.map.setRemotePresences(peers);
+
+        this.emit("peerschange", peers);
+    }
+}
@@ -1,22 +1,30 @@
 import CollisionManager from "./CollisionManager";
-import { CELL_STYLE_GROUPS, CELL_STYLE_INPUT_TYPES, CELL_STYLE_KEYS, EDITMENU_LABELS } from "./data";
-import type { Cell, CellState, CellStyleOverride, CellStyleOverridePure, CellType, Collision, EditMenuElement, EditMenuState } from "./types";
-import { EventEmitter, FPSCounter } from "./util";
+import { CELL_SIZE, CELL_STYLE_GROUPS, CELL_STYLE_INPUT_TYPES, CELL_STYLE_KEYS, CELL_STYLE_VALUE_TYPES, DEFAULT_SEAT_BLOCK_OPTIONS, DEFAULT_SEAT_LABEL_OPTIONS, EDITMENU_LABELS } from "./data";
+import type { AutosaveSnapshot, Cell, CellState, CellStyleOverride, CellStyleOverridePure, CellTransform, CellType, Collision, EditMenuElement, EditMenuState, EditorTool, SeatBlockOptions, SeatLabelDirection, SeatLabelOptions } from "./types";
+import { EventEmitter, FPSCounter, downloadBlob } from "./util";
 import Map from "./Map";
 
 const SCROLLBAR_WIDTH = 3;
 
+const EDITOR_TOOLS: EditorTool[] = ["select", "brush", "rectangle", "outline", "line", "fill"];
+
 class Toolbelt extends EventEmitter<{
     generateSeatLabels: void;
     deleteCells: void;
+    exportImage: void;
+    selectTool: EditorTool;
 }> {
     el: HTMLElement;
 
     buttons: {
         generateSeatLabels: HTMLButtonElement,
-        deleteCells: HTMLButtonElement
+        deleteCells: HTMLButtonElement,
+        exportImage: HTMLButtonElement | null
     };
 
+    // Optional as well, a button with id "tool-<tool>" chooses the tool
+    toolButtons: Partial<Record<EditorTool, HTMLButtonElement>> = {};
+
     constructor(toolbeltId: string) {
         super();
 
@@ -38,9 +46,21 @@ class Toolbelt extends EventEmitter<{
             throw new Error("Delete cells button not found in toolbelt");
         }
 
+        // Optional, toolbelts made before the button existed don't have it
+        const exportImage = this.el.querySelector("button#export-image") as HTMLButtonElement | null;
+
         this.buttons = {
             generateSeatLabels,
-            deleteCells
+            deleteCells,
+            exportImage
+        }
+
+        for (const tool of EDITOR_TOOLS) {
+            const button = this.el.querySelector(`button#tool-${tool}`) as HTMLButtonElement | null;
+
+            if (button) {
+                this.toolButtons[tool] = button;
+            }
         }
 
         this.setListeners();
@@ -53,6 +73,24 @@ class Toolbelt extends EventEmitter<{
         this.buttons.deleteCells.addEventListener("click", () => {
             this.emit("deleteCells", undefined);
         });
+        this.buttons.exportImage?.addEventListener("click", () => {
+            this.emit("exportImage", undefined);
+        });
+
+        for (const tool of EDITOR_TOOLS) {
+            this.toolButtons[tool]?.addEventListener("click", () => {
+                this.emit("selectTool", tool);
+            });
+        }
+    }
+
+    /**
+     * Marks the button of the tool in use with the class "active".
+     */
+    setActiveTool(tool: EditorTool) {
+        for (const key of EDITOR_TOOLS) {
+            this.toolButtons[key]?.classList.toggle("active", key === tool);
+        }
     }
 }
 
@@ -88,6 +126,7 @@ export default class EditMenu {
         },
         selectedStyleState: "default",
         selectedType: "seat",
+        paintType: "seat",
         selectedInput: null,
         cellStyleChanges: {},
         selectedCells: null,
@@ -106,6 +145,22 @@ export default class EditMenu {
 
     elements: EditMenuElement[] = [];
 
+    // Kept between uses of the seat label menu
+    seatLabelOptions: SeatLabelOptions = { ...DEFAULT_SEAT_LABEL_OPTIONS };
+    seatLabelScope: "all" | "selected" = "all";
+
+    // Kept between uses of the seat block menu
+    seatBlockOptions: SeatBlockOptions = { ...DEFAULT_SEAT_BLOCK_OPTIONS };
+
+    // What the rotate and flip buttons of the selection menu transform
+    transformTarget: "selection" | "clipboard" = "selection";
+
+    // Autosaved layout offered for recovery, the prompt stays until it is restored or discarded
+    recoverySnapshot: AutosaveSnapshot | null = null;
+
+    // Section and row the selected cells are grouped into, set to the row of the first selected cell if it is in one
+    rowNames: { section: string, row: string } = { section: "", row: "" };
+
     constructor(map: Map, editMenuId: string, lockedCells: number[], toolbeltId: string) {
         this.map = map;
 
@@ -135,11 +190,20 @@ export default class EditMenu {
         this.toolbelt = new Toolbelt(toolbeltId);
 
         this.toolbelt.on("generateSeatLabels", () => {
-            this.generateSeatLabels();
+            this.showSeatLabelMenu();
         })
         this.toolbelt.on("deleteCells", () => {
             this.deleteCells();
         });
+        this.toolbelt.on("exportImage", () => {
+            this.exportImage();
+        });
+        this.toolbelt.on("selectTool", tool => {
+            this.map.setTool(tool);
+            this.toolbelt.setActiveTool(tool);
+        });
+
+        this.toolbelt.setActiveTool(this.map.tool);
 
         this.input.addEventListener("input", event => this.handleInputChange(event));
 
@@ -165,7 +229,10 @@ export default class EditMenu {
 
         this.input.onkeydown = (event) => {
             if (event.key === "Enter") {
-                if (this.state.selectedInput !== null) {
+                if (this.state.selectedInput !== null && this.getInputByRef(this.state.selectedInput)?.type === "field") {
+                    // Fields are set while typing, Enter only leaves them
+                    this.input.blur();
+                } else if (this.state.selectedInput !== null) {
                     this.applyToMap();
                 }
             }
@@ -233,49 +300,232 @@ export default class EditMenu {
         this.map.render();
     }
 
-    private generateSeatLabels() {
-        const { mapLayout } = this.map.history;
-        if (!this.map || !mapLayout || !mapLayout.cells) {
-            console.error("Map or map layout is not defined.");
-            return;
-        }
+    /**
+     * Downloads a PNG of the selected cells, or of the whole layout when nothing is selected.
+     */
+    private exportImage() {
+        const [minX, maxX, minY, maxY] = this.map.getSelectionCellBoundsAsCoordinates();
 
-        const cells = (mapLayout.cells.map((cell, index) => [cell, index]) as [Cell, number][]).filter(([cell]) => cell !== null && cell.type === "seat");
+        const region: [number, number, number, number] | undefined = minX === null ? undefined : [minX * CELL_SIZE, (maxX + 1) * CELL_SIZE, minY * CELL_SIZE, (maxY + 1) * CELL_SIZE];
 
-        let number = 1;
+        this.map.toImage({ scale: 2, region })
+            .then(blob => downloadBlob(blob, "layout.png"))
+            .catch((error: Error) => alert(error.message));
+    }
 
-        const setNames: {
-            index: number[],
-            name: string[],
-            oldNames: (string | undefined)[]
-        } = {
-            index: [],
-            name: [],
-            oldNames: []
-        }
+    /**
+     * Lets the user pick a CSV file and bulk-updates cell names and types from it.
+     */
+    private importCSV() {
+        const input = document.createElement("input");
 
-        for (const cellInfo of cells) {
-            const cell = cellInfo[0];
-            const index = cellInfo[1];
+        input.type = "file";
+        input.accept = ".csv,text/csv";
 
-            if (!cell) {
-                console.error("Error #357");
+        input.addEventListener("change", async () => {
+            const file = input.files?.[0];
 
-                continue;
+            if (!file) {
+                return;
             }
 
-            setNames.oldNames.push(cell.name);
+            const { updated, errors } = this.map.importCSV(await file.text(), { lockedCells: this.lockedCells });
 
-            cell.name = (number++).toString();
+            this.map.unselectCells();
 
-            setNames.index.push(index);
-            setNames.name.push(cell.name);
-        }
+            if (errors.length > 0) {
+                alert(`Updated ${updated} cells. Skipped rows:\n${errors.map(error => `Row ${error.row}: ${error.message}`).join("\n")}`);
+            }
+        });
 
-        // @ts-expect-error
-        this.map.history.changeAttributes(setNames.index, "name", setNames.name, setNames.name);
+        input.click();
+    }
 
-        this.map.render();
+    /**
+     * Replaces the menu with the options of the seat label generator. The labels are previewed on the map
+     * while the options are changed, and written when the user applies them.
+     */
+    showSeatLabelMenu() {
+        this.input.blur();
+
+        const options = this.seatLabelOptions;
+
+        const scope = () => this.seatLabelScope === "selected" ? this.state.selectedCells?.indexes ?? [] : undefined;
+        const preview = () => this.map.previewSeatLabels(options, scope());
+
+        this.elements = [{
+            type: "label",
+            label: "seat_labels_title"
+        }, {
+            type: "field",
+            label: "field_label_template",
+            get: () => options.template,
+            set: value => {
+                options.template = value;
+                preview();
+            }
+        }, {
+            type: "field",
+            label: "field_label_prefix",
+            get: () => options.prefix,
+            set: value => {
+                options.prefix = value;
+                preview();
+            }
+        }, {
+            type: "field",
+            label: "field_label_start",
+            get: () => options.start.toString(),
+            set: value => {
+                const start = parseInt(value, 10);
+
+                // Counting from 1 works with every template, also ones counting in letters
+                if (Number.isInteger(start) && start >= 1) {
+                    options.start = start;
+                    preview();
+                }
+            }
+        }, {
+            type: "hselect",
+            label: "hslct_label_direction",
+            options: ["ltr", "serpentine", "rtl"],
+            get: () => options.direction,
+            set: option => {
+                options.direction = option as SeatLabelDirection;
+                preview();
+            }
+        }, {
+            type: "hselect",
+            label: "hslct_label_numbering",
+            options: ["reset_per_row", "continue_numbering"],
+            get: () => options.resetPerRow ? "reset_per_row" : "continue_numbering",
+            set: option => {
+                options.resetPerRow = option === "reset_per_row";
+                preview();
+            }
+        }, {
+            type: "hselect",
+            label: "hslct_label_scope",
+            options: ["label_scope_all", "label_scope_selected"],
+            get: () => `label_scope_${this.seatLabelScope}`,
+            set: option => {
+                this.seatLabelScope = option === "label_scope_selected" ? "selected" : "all";
+                preview();
+            }
+        }, {
+            type: "button",
+            label: "btn_generate_labels",
+            action: () => {
+                this.map.generateSeatLabels(options, scope());
+                this.selectCells(this.state.selectedCells?.indexes ?? []);
+            }
+        }, {
+            type: "button",
+            label: "btn_back",
+            action: () => {
+                this.selectCells(this.state.selectedCells?.indexes ?? []);
+            }
+        }];
+
+        // Opened with seats selected, those are most likely the ones to label
+        this.seatLabelScope = this.state.selectedCells === null ? "all" : "selected";
+        this.scroll.offset = 0;
+
+        preview();
+
+        this.render();
+    }
+
+    // A field for a whole number of at least min, larger values than max are lowered to max and other values are ignored
+    private integerField(label: string, min: number, max: number, get: () => number, set: (value: number) => void): EditMenuElement {
+        return {
+            type: "field",
+            label,
+            get: () => get().toString(),
+            set: value => {
+                const parsed = parseInt(value, 10);
+
+                if (Number.isInteger(parsed) && parsed >= min) {
+                    set(Math.min(parsed, max));
+                }
+            }
+        };
+    }
+
+    /**
+     * Replaces the menu with the options of the seat block generator. The block is previewed on the map
+     * while the options are changed, and inserted with its top left corner in the origin cell when the user applies them.
+     */
+    showSeatBlockMenu(origin: number) {
+        this.input.blur();
+
+        const options = this.seatBlockOptions;
+        // A block can't be larger than the grid, so neither can any of its sizes
+        const { x: width, y: height } = this.map.history.mapLayout;
+
+        const preview = () => this.map.previewSeatBlock(origin, options);
+        const tableTypes: Record<string, CellType | null> = { no_tables: null, table_wall: "wall", table_custom: "custom" };
+
+        this.elements = [{
+            type: "label",
+            label: "seat_block_title"
+        },
+        this.integerField("field_block_rows", 1, height, () => options.rows, value => {
+            options.rows = value;
+            preview();
+        }),
+        this.integerField("field_block_seats_per_row", 1, width, () => options.seatsPerRow, value => {
+            options.seatsPerRow = value;
+            preview();
+        }),
+        this.integerField("field_block_aisle_every", 0, width, () => options.aisleEvery, value => {
+            options.aisleEvery = value;
+            preview();
+        }),
+        this.integerField("field_block_aisle_width", 1, width, () => options.aisleWidth, value => {
+            options.aisleWidth = value;
+            preview();
+        }),
+        this.integerField("field_block_row_gap", 0, height, () => options.rowGap, value => {
+            options.rowGap = value;
+            preview();
+        }), {
+            type: "hselect",
+            label: "hslct_block_tables",
+            options: Object.keys(tableTypes),
+            get: () => Object.keys(tableTypes).find(key => tableTypes[key] === options.tableType) ?? "no_tables",
+            set: option => {
+                options.tableType = tableTypes[option] ?? null;
+                preview();
+            }
+        }, {
+            type: "field",
+            label: "field_block_template",
+            get: () => options.template,
+            set: value => {
+                options.template = value;
+                preview();
+            }
+        }, {
+            type: "button",
+            label: "btn_insert_seat_block",
+            action: () => {
+                this.map.insertSeatBlock(origin, options);
+                this.selectCells(this.state.selectedCells?.indexes ?? []);
+            }
+        }, {
+            type: "button",
+            label: "btn_back",
+            action: () => {
+                this.selectCells(this.state.selectedCells?.indexes ?? []);
+            }
+        }];
+
+        this.scroll.offset = 0;
+
+        preview();
+
+        this.render();
     }
 
     parseRef(ref: string) {
@@ -398,6 +648,14 @@ export default class EditMenu {
             this.state.selectedInput = ref;
             this.state.animations.blinkingCursor.lastTick = Date.now();
             this.state.animations.blinkingCursor.lastState = "visible";
+        } else if (element && element.type === "field") {
+            this.state.input.property = null;
+            this.state.input.value = element.get();
+            this.input.value = this.state.input.value;
+            this.input.focus();
+            this.state.selectedInput = ref;
+            this.state.animations.blinkingCursor.lastTick = Date.now();
+            this.state.animations.blinkingCursor.lastState = "visible";
         }
     }
 
@@ -463,7 +721,18 @@ export default class EditMenu {
             // HSelect arrow click
 
             if (el.type === "hselect") {
-                if (el.label === "hslct_edit_state") {
+                if (el.get && el.set) {
+                    const selectedIndex = el.options.indexOf(el.get());
+
+                    if (ref.controlSymbol === "-" && selectedIndex > 0) {
+                        el.set(el.options[selectedIndex - 1] as string);
+                    } else if (ref.controlSymbol === "+" && selectedIndex < el.options.length - 1) {
+                        el.set(el.options[selectedIndex + 1] as string);
+                    }
+
+                    // The option isn't part of the state, so the state alone doesn't show that it changed
+                    this.render();
+                } else if (el.label === "hslct_edit_state") {
                     let selectedIndex = el.options.indexOf(this.state.selectedStyleState);
 
                     if (ref.controlSymbol === "-") {
@@ -479,8 +748,9 @@ export default class EditMenu {
                     this.state.selectedStyleState = el.options[selectedIndex] as CellState;
 
                     this.state.selectedInput = null; // Unselect input when changing state
-                } else if (el.label === "hslct_type") {
-                    let selectedIndex = el.options.indexOf(this.state.selectedType);
+                } else if (el.label === "hslct_type" || el.label === "hslct_paint_type") {
+                    const key = el.label === "hslct_type" ? "selectedType" : "paintType";
+                    let selectedIndex = el.options.indexOf(this.state[key]);
 
                     if (ref.controlSymbol === "-") {
                         if (selectedIndex > 0) {
@@ -492,11 +762,11 @@ export default class EditMenu {
                         }
                     }
 
-                    this.state.selectedType = el.options[selectedIndex] as CellType;
+                    this.state[key] = el.options[selectedIndex] as CellType;
                 }
             }
         } else {
-            if (el.type === "input") {
+            if (el.type === "input" || el.type === "field") {
                 this.selectInput(collision.reference)
             } else if (el.type === "button") {
                 el.action();
@@ -535,7 +805,27 @@ export default class EditMenu {
         this.renderIfStateChanged();
     }
 
+    // Number properties are stored as numbers, text that isn't one, like "" or "-", leaves the property unset
+    private parseStyleInput(property: string, value: string) {
+        if (CELL_STYLE_VALUE_TYPES[property as keyof CellStyleOverridePure] !== "number") {
+            return value;
+        }
+
+        return value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+    }
+
     handleInputChange(event: Event) {
+        const field = this.state.selectedInput === null ? null : this.getInputByRef(this.state.selectedInput);
+
+        if (field && field.type === "field") {
+            this.state.input.value = (event.target as HTMLInputElement).value;
+            field.set(this.state.input.value);
+
+            this.render();
+
+            return;
+        }
+
         if (!this.state.selectedCells) {
             return;
         }
@@ -544,11 +834,12 @@ export default class EditMenu {
 
         if (this.state.input.property && this.state.selectedInput !== null) {
             const element = this.getInputByRef(this.state.selectedInput);
+            const value = this.parseStyleInput(this.state.input.property, this.state.input.value);
 
             if (element && element.type === "input") {
                 if (this.state.selectedStyleState === "default") {
                     // @ts-ignore
-                    this.state.cellStyleChanges[this.state.input.property as keyof CellStyleOverride] = this.state.input.value;
+                    this.state.cellStyleChanges[this.state.input.property as keyof CellStyleOverride] = value;
                 }
 
                 if (this.state.selectedStyleState === "hover") {
@@ -557,7 +848,7 @@ export default class EditMenu {
                     }
 
                     //@ts-ignore
-                    this.state.cellStyleChanges.hoverOverride[this.state.input.property] = this.state.input.value;
+                    this.state.cellStyleChanges.hoverOverride[this.state.input.property] = value;
                 }
 
                 if (this.state.selectedStyleState === "selected") {
@@ -566,7 +857,7 @@ export default class EditMenu {
                     }
 
                     //@ts-ignore
-                    this.state.cellStyleChanges.selectedOverride[this.state.input.property] = this.state.input.value;
+                    this.state.cellStyleChanges.selectedOverride[this.state.input.property] = value;
                 }
             }
         }
@@ -574,23 +865,124 @@ export default class EditMenu {
         this.render();
     }
 
+    /**
+     * Replaces the menu with a prompt to restore or discard an autosaved layout.
+     * Selecting cells keeps the prompt until one of them is chosen.
+     */
+    showRecoveryPrompt(snapshot: AutosaveSnapshot) {
+        this.recoverySnapshot = snapshot;
+
+        this.map.clearSeatLabelPreview();
+        this.map.clearSeatBlockPreview();
+
+        const prompt = EDITMENU_LABELS.autosave_recovery as string;
+
+        this.elements = [{
+            type: "label",
+            label: "autosave_recovery",
+            text: prompt.replace("{time}", new Date(snapshot.savedAt).toLocaleString())
+        }, {
+            type: "button",
+            label: "btn_restore_snapshot",
+            action: () => {
+                this.recoverySnapshot = null;
+                this.map.switchLayout(snapshot.layout, snapshot.history);
+                this.unSelectCell();
+            }
+        }, {
+            type: "button",
+            label: "btn_discard_snapshot",
+            action: () => {
+                this.recoverySnapshot = null;
+                this.map.autosave?.discard();
+                this.selectCells(this.map.getSelectedCells());
+            }
+        }];
+
+        this.render();
+    }
+
     unSelectCell() {
+        if (this.recoverySnapshot !== null) {
+            this.showRecoveryPrompt(this.recoverySnapshot);
+
+            return;
+        }
+
         this.input.blur();
+        this.map.clearSeatLabelPreview();
+        this.map.clearSeatBlockPreview();
 
         this.elements = [];
 
         this.elements.push({
             type: "label",
             label: "default_text1"
+        }, {
+            // The type the drawing tools paint
+            type: "hselect",
+            label: "hslct_paint_type",
+            options: [
+                "seat",
+                "aisle",
+                "wall",
+                "door",
+                "custom"
+            ]
+        }, {
+            type: "button",
+            label: "btn_undo",
+            action: () => {
+                this.map.undo();
+            }
+        }, {
+            type: "button",
+            label: "btn_redo",
+            action: () => {
+                this.map.redo();
+            }
+        }, {
+            type: "button",
+            label: "btn_crop_to_content",
+            action: () => {
+                this.map.cropToContent();
+            }
         }, {
             type: "button",
             label: "btn_export",
             action: () => {
-                let a = document.createElement("a");
-                let file = new Blob([JSON.stringify(this.map.exportMapLayout())], { type: "JSON" });
-                a.href = URL.createObjectURL(file);
-                a.download = "test.json";
-                a.click();
+                downloadBlob(new Blob([JSON.stringify(this.map.exportMapLayout())], { type: "JSON" }), "test.json");
+            }
+        }, {
+            type: "button",
+            label: "btn_export_svg",
+            action: () => {
+                downloadBlob(new Blob([this.map.toSVG()], { type: "image/svg+xml" }), "layout.svg");
+            }
+        }, {
+            type: "button",
+            label: "btn_export_pdf",
+            action: () => {
+                const { pdf, warnings } = this.map.toPDF();
+
+                downloadBlob(pdf, "layout.pdf");
+
+                if (warnings.length > 0) {
+                    alert(`The PDF differs from the map:\n${warnings.join("\n")}`);
+                }
+            }
+        }, {
+            type: "button",
+            label: "btn_export_csv",
+            action: () => {
+                // The byte order mark makes spreadsheet programs read the file as UTF-8
+                downloadBlob(new Blob(["\uFEFF" + this.map.exportCSV()], { type: "text/csv" }), "layout.csv");
+            }
+        }, {
+            type: "button",
+            label: "btn_import_csv",
+            action: () => {
+                this.importCSV();
             }
         }, {
             type: "button",
@@ -613,19 +1005,27 @@ export default class EditMenu {
         this.state.cellStyleChanges = {};
         this.state.selectedCells = null;
         this.state.selectedStyleState = "default";
-        this.state.selectedType = "seat";
         this.scroll.offset = 0;
 
         this.render();
     }
 
     selectCells(cellIndexes: number[]) {
+        if (this.recoverySnapshot !== null) {
+            this.showRecoveryPrompt(this.recoverySnapshot);
+
+            return;
+        }
+
         if (cellIndexes.length === 0) {
             this.unSelectCell();
 
             return;
         }
 
+        this.map.clearSeatLabelPreview();
+        this.map.clearSeatBlockPreview();
+
         for (let i = 0; i < cellIndexes.length; i++) {
             const index = cellIndexes[i];
 
@@ -698,6 +1098,100 @@ export default class EditMenu {
             action: () => this.applyToMap()
         })
 
+        // Row and column commands work on the rows and columns the selection spans
+        const withSelectionBounds = (action: (minX: number, maxX: number, minY: number, maxY: number) => void) => () => {
+            const [minX, maxX, minY, maxY] = this.map.getSelectionCellBoundsAsCoordinates();
+
+            if (minX !== null) {
+                action(minX, maxX, minY, maxY);
+            }
+        };
+
+        elements.push({
+            type: "button",
+            label: "btn_insert_row_above",
+            action: withSelectionBounds((minX, maxX, minY) => this.map.insertRows(minY))
+        }, {
+            type: "button",
+            label: "btn_insert_row_below",
+            action: withSelectionBounds((minX, maxX, minY, maxY) => this.map.insertRows(maxY + 1))
+        }, {
+            type: "button",
+            label: "btn_delete_rows",
+            action: withSelectionBounds((minX, maxX, minY, maxY) => this.map.deleteRows(minY, maxY - minY + 1))
+        }, {
+            type: "button",
+            label: "btn_insert_column_left",
+            action: withSelectionBounds(minX => this.map.insertColumns(minX))
+        }, {
+            type: "button",
+            label: "btn_insert_column_right",
+            action: withSelectionBounds((minX, maxX) => this.map.insertColumns(maxX + 1))
+        }, {
+            type: "button",
+            label: "btn_delete_columns",
+            action: withSelectionBounds((minX, maxX) => this.map.deleteColumns(minX, maxX - minX + 1))
+        });
+
+        const transformButton = (label: string, transform: CellTransform): EditMenuElement => ({
+            type: "button",
+            label,
+            action: () => {
+                if (this.transformTarget === "selection") {
+                    this.map.transformSelection(transform);
+                } else {
+                    this.map.transformClipboard(transform);
+                }
+            }
+        });
+
+        elements.push({
+            type: "hselect",
+            label: "hslct_transform_target",
+            options: ["transform_selection", "transform_clipboard"],
+            get: () => `transform_${this.transformTarget}`,
+            set: option => {
+                this.transformTarget = option === "transform_clipboard" ? "clipboard" : "selection";
+            }
+        },
+        transformButton("btn_rotate_90", "rotate90"),
+        transformButton("btn_rotate_180", "rotate180"),
+        transformButton("btn_rotate_270", "rotate270"),
+        transformButton("btn_flip_horizontal", "flipHorizontal"),
+        transformButton("btn_flip_vertical", "flipVertical"));
+
+        elements.push({
+            type: "field",
+            label: "field_section",
+            get: () => this.rowNames.section,
+            set: value => {
+                this.rowNames.section = value;
+            }
+        }, {
+            type: "field",
+            label: "field_row",
+            get: () => this.rowNames.row,
+            set: value => {
+                this.rowNames.row = value;
+            }
+        }, {
+            type: "button",
+            label: "btn_group_row",
+            action: () => {
+                this.map.groupCellsAsRow(this.state.selectedCells?.indexes ?? [], this.rowNames.section, this.rowNames.row);
+            }
+        }, {
+            type: "button",
+            label: "btn_ungroup_row",
+            action: () => {
+                this.map.removeCellsFromRows(this.state.selectedCells?.indexes ?? []);
+            }
+        }, {
+            type: "button",
+            label: "btn_seat_block",
+            action: withSelectionBounds((minX, maxX, minY) => this.showSeatBlockMenu(this.map.layout.coordinatesToCellIndex(minX, minY)))
+        });
+
         if (this.lockedCells.some(index => cellIndexes.includes(index))) {
             this.elements = [
                 {
@@ -730,6 +1224,12 @@ export default class EditMenu {
         this.state.selectedType = cell?.type || "seat";
         this.scroll.offset = 0;
 
+        const rowOfCell = this.map.getRowOfCell(firstCellIndex);
+
+        if (rowOfCell !== null) {
+            this.rowNames = { section: rowOfCell.section.name, row: rowOfCell.row.name };
+        }
+
         for (const key of CELL_STYLE_KEYS) {
             if (this.map.history.mapLayout.cells[firstCellIndex]?.styleOverride?.[key as keyof CellStyleOverridePure] !== undefined &&this.isPropertyCommonToAllCells(key as keyof CellStyleOverridePure, this.map.history.mapLayout.cells[firstCellIndex]?.styleOverride?.[key as keyof CellStyleOverridePure], "default")) {
                 // @ts-expect-error
@@ -885,8 +1385,8 @@ export default class EditMenu {
 
         let lastElementYEnd = 60 + this.scroll.offset;
 
-        const renderLabel = (element: EditMenuElement): void => {
-            let label = EDITMENU_LABELS[element.label];
+        const renderLabel = (element: EditMenuElement & { type: "label" }): void => {
+            let label = element.text ?? EDITMENU_LABELS[element.label];
 
             if (label === undefined) {
                 label = "NO LABEL / UNDEFINED"
@@ -1022,6 +1522,57 @@ export default class EditMenu {
             lastElementYEnd += 30 + marginY;
         }
 
+        // Shows what is being typed while selected, the value it was set to otherwise
+        const renderField = (element: EditMenuElement & { type: "field" }, ref: string): void => {
+            let label = EDITMENU_LABELS[element.label];
+
+            if (label === undefined) {
+                label = "NO LABEL / UNDEFINED"
+            }
+
+            this.ctx.fillStyle = "#FFF";
+            this.ctx.font = `16px 'League Spartan'`;
+            this.ctx.fillText(label, paddingX, lastElementYEnd);
+
+            const labelMeasurements = this.ctx.measureText(label);
+
+            lastElementYEnd += labelMeasurements.actualBoundingBoxAscent + labelMeasurements.actualBoundingBoxDescent;
+
+            this.ctx.fillRect(paddingX, lastElementYEnd, inputWidth, inputHeight);
+
+            let cursorMarginX = paddingX + inputPadding;
+
+            const value = this.state.selectedInput === ref ? this.state.input.value?.toString() ?? "" : element.get();
+
+            if (value.length > 0) {
+                this.ctx.fillStyle = "#000";
+                const textMeasurements = this.ctx.measureText(value);
+                const textHeight = textMeasurements.actualBoundingBoxAscent + textMeasurements.actualBoundingBoxDescent;
+
+                this.ctx.fillText(value, cursorMarginX, lastElementYEnd + (inputHeight / 2) + (textHeight / 2));
+
+                cursorMarginX += textMeasurements.width;
+            }
+
+            if (this.state.selectedInput === ref && this.state.animations.blinkingCursor.lastState === "visible") {
+                this.ctx.strokeStyle = "#000";
+                this.ctx.beginPath();
+                this.ctx.moveTo(cursorMarginX, lastElementYEnd + inputPadding);
+                this.ctx.lineTo(cursorMarginX, lastElementYEnd + inputHeight - inputPadding);
+                this.ctx.stroke();
+            }
+
+            collisions.push({
+                x: paddingX,
+                y: lastElementYEnd,
+                width: inputWidth,
+                height: inputHeight,
+                reference: ref
+            })
+
+            lastElementYEnd += inputHeight + marginY;
+        }
+
         const renderButton = (element: EditMenuElement & { type: "button" }, ref: string): void => {
             let label = EDITMENU_LABELS[element.label];
 
@@ -1054,10 +1605,14 @@ export default class EditMenu {
         const renderHSelect = (element: EditMenuElement & { type: "hselect" }, ref: string): void => {
             let labelTag = "";
 
-            if (element.label === "hslct_edit_state") {
+            if (element.get) {
+                labelTag = element.get();
+            } else if (element.label === "hslct_edit_state") {
                 labelTag = this.state.selectedStyleState;
             } else if (element.label === "hslct_type") {
                 labelTag = this.state.selectedType;
+            } else if (element.label === "hslct_paint_type") {
+                labelTag = this.state.paintType;
             }
 
             this.ctx.fillStyle = "#F00";
@@ -1179,6 +1734,8 @@ export default class EditMenu {
                 renderLabel(element);
             } else if (element.type === "input") {
                 renderInput(element, i.toString());
+            } else if (element.type === "field") {
+                renderField(element, i.toString());
             } else if (element.type === "button") {
                 renderButton(element, i.toString());
             } else if (element.type === "hselect") {
@@ -1193,6 +1750,8 @@ export default class EditMenu {
 
                         if (subelement.type === "input") {
                             renderInput(subelement, `${i}_${subIndex}`);
+                        } else if (subelement.type === "field") {
+                            renderField(subelement, `${i}_${subIndex}`);
                         } else if (subelement.type === "button") {
                             renderButton(subelement, `${i}_${subIndex}`);
                         } else if (subelement.type === "hselect") {
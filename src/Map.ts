@@ -1,21 +1,42 @@
 import CollisionManager from "./CollisionManager";
-import { DEFAULT_MAP_BACKGROUND_COLOR, DEFAULT_ZOOM_LEVEL, CELL_SIZE, ZOOM_LEVELS, MAX_ZOOM, DEFAULT_CELL_STYLES, MouseButtons } from "./data";
+import { CELL_SIZE, ZOOM_LEVELS, MAX_ZOOM, MAX_IMAGE_SIZE, DEFAULT_CELL_STYLES, DEFAULT_SEAT_STATE_STYLES, DEFAULT_HISTORY_DEPTH, DEFAULT_AUTOSAVE_OPTIONS, UNSELECTABLE_SEAT_STATES, DEFAULT_SEAT_LABEL_OPTIONS, DEFAULT_SEAT_BLOCK_OPTIONS, SEAT_LABEL_PREVIEW_COLOR, CLIPBOARD_MIME_TYPE, MouseButtons } from "./data";
 import EditMenu from "./EditMenu";
-import type { Cell, CellStyleOverride, Collision, ExtendedTouch, MapLayout, MapLayoutInput, MapMode, MapRenderInstruction } from "./types";
+import type { Cell, CellStyleOverride, CellStyleOverridePure, CellTransform, CellType, Collision, DrawingTool, EditorTool, ExtendedTouch, MapLayoutInput, MapMode, MapOptions, MapRenderInstruction, MapRenderLayers, MapCellPatch, MapRenderOptions, MapRow, MapSection, OwnSeats, PureCell, RemotePresence, SeatBlockOptions, SeatLabelOptions, SeatState, SeatStates, SelectionRules } from "./types";
 import { KeyboardRunReason } from "./types";
-import { EventEmitter, FPSCounter, chunks } from "./util";
-import { MapLayoutHistory } from "./MapLayoutHistory";
-
-export default class Map extends EventEmitter<{ save: MapLayoutInput, select: number }> {
+import { EventEmitter, FPSCounter, range } from "./util";
+import { MapLayoutHistory, getResizedCellIndex, type MapLayoutHistoryChange, type MapLayoutHistoryOperation, type MapLayoutResizeOperation, type SerializedMapLayoutHistory } from "./MapLayoutHistory";
+import { MapAutosave } from "./MapAutosave";
+import { MapLayoutModel } from "./MapLayoutModel";
+import { exportCellsToCSV, getCSVImportChanges, type CSVImportIssue, type CSVMatchBy } from "./csv";
+import { renderInstructionsToPDF, type PDFSeatIndexRow } from "./pdf";
+import type { SeatAvailabilityAdapter } from "./seatAvailability";
+import type { BookingClient, BookingResult } from "./booking";
+import { renderInstructionsToSVG } from "./svg";
+import { getLineCells, getToolCells } from "./drawing";
+import { assignCellsToRow, getSeatLabelChanges, getSeatLabels, isValidSeatLabelStart, removeCellsFromRows } from "./sections";
+import { getSeatBlockCells, type SeatBlockCells } from "./seatBlock";
+import { transformCells } from "./transform";
+import { parseCopiedCells, parseNameGrid, serializeCopiedCells } from "./clipboard";
+
+export { MapLayoutModel };
+export { validateLayout } from "./validateLayout";
+export { MAP_LAYOUT_INPUT_SCHEMA } from "./layoutSchema";
+export { migrateLayout, registerLayoutMigration } from "./migrations";
+export { CURRENT_LAYOUT_VERSION } from "./data";
+export { CollaborationSession } from "./CollaborationSession";
+export { getResizedCellIndex } from "./MapLayoutHistory";
+export { WebSocketSeatAvailabilityAdapter, SSESeatAvailabilityAdapter, type SeatAvailabilityAdapter } from "./seatAvailability";
+export { HTTPBookingClient, type BookingClient, type BookingResult } from "./booking";
+
+export default class Map extends EventEmitter<{ save: MapLayoutInput, selectionchange: number[], selectionidschange: (string | undefined)[], historychange: MapLayoutHistoryChange, cursormove: [number, number] | null, bookingchange: OwnSeats }> {
     mode: MapMode;
     canvas: HTMLCanvasElement;
     ctx: CanvasRenderingContext2D | null;
 
+    layout: MapLayoutModel;
     history: MapLayoutHistory;
-    mapWidth: number;
-    mapHeight: number;
 
-    minZoom: number;
+    minZoom: number = 0;
 
     camera: {
         x: number;
@@ -35,12 +56,42 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
 
     collisions: CollisionManager<number>;
     editMenu: EditMenu | null = null;
+    autosave: MapAutosave | null = null;
+    bookingClient: BookingClient | null = null;
+
+    // What a left click or drag does in edit mode, see setTool
+    tool: EditorTool = "select";
 
     ongoingTouches: { identifier: number, pageX: number, pageY: number, hasMoved: boolean }[] = [];
 
+    seatStateStyles: Record<SeatState, CellStyleOverridePure>;
+
+    historyDepth: number;
+
+    selectionRules: SelectionRules = {
+        maxSelected: 1,
+        requireAdjacent: false
+    };
+
     private state: {
         hoveredCell: number
         selectedCells: number[],
+        seatStates: SeatStates,
+        ownSeats: OwnSeats,
+        remotePresences: RemotePresence[],
+        labelPreview: Record<number, string>, // labels shown over seats by cell index, see previewSeatLabels
+        stroke: {
+            tool: DrawingTool,
+            start: number, // cell the stroke started in
+            last: number, // cell the pointer was in last
+            cells: number[] // cells painted when the stroke ends
+        } | null,
+        blockPreview: SeatBlockCells | null, // see previewSeatBlock
+        move: {
+            start: number, // cell the drag started in
+            x: number, // columns and rows the selection is dragged by
+            y: number
+        } | null,
         multiSelect: {
             start: { x: number, y: number },
             current: { x: number, y: number },
@@ -49,11 +100,19 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         },
         copying: {
             cells: (Cell | undefined)[][],
-            bounds: [number, number, number, number] | [null, null, null, null]
+            bounds: [number, number, number, number] | [null, null, null, null],
+            text: string | null // written to the system clipboard for the cells, see pasteText
         }
     } = {
             hoveredCell: -1,
             selectedCells: [],
+            seatStates: {},
+            ownSeats: {},
+            remotePresences: [],
+            labelPreview: {},
+            stroke: null,
+            blockPreview: null,
+            move: null,
             multiSelect: {
                 start: { x: 0, y: 0 },
                 current: { x: 0, y: 0 },
@@ -62,7 +121,8 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             },
             copying: {
                 cells: [],
-                bounds: [null, null, null, null]
+                bounds: [null, null, null, null],
+                text: null
             }
         }
 
@@ -72,54 +132,32 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
     lastFrameTimestamp: number = 0;
 
     static processInputCells(cells: (Cell | `${number}`)[]): Cell[] {
-        const processedCells: Cell[] = [];
-
-        for (const cell of cells) {
-            if (typeof cell === "string") {
-                const count = parseInt(cell, 10);
-                for (let j = 0; j < count; j++) {
-                    processedCells.push(null);
-                }
-            } else {
-                processedCells.push(cell);
-            }
-        }
-
-        return processedCells;
+        return MapLayoutModel.processInputCells(cells);
     }
 
     static inputProcessing(input: MapLayoutInput) {
-        const processedObjects: Cell[] = Map.processInputCells(input.cells);
-
-        if (processedObjects.length !== input.x * input.y) {
-            throw new Error(`Invalid map layout: expected ${input.x * input.y} cells, got ${processedObjects.length}`);
-        }
-
-        return {
-            x: input.x,
-            y: input.y,
-            cells: processedObjects,
-            globalOverride: {
-                backgroundColor: input.globalOverride?.backgroundColor || DEFAULT_MAP_BACKGROUND_COLOR,
-                zoomLevel: input.globalOverride?.zoomLevel || DEFAULT_ZOOM_LEVEL,
-                cellStyleOverride: {
-                    seat: input.globalOverride?.cellStyleOverride?.seat,
-                    aisle: input.globalOverride?.cellStyleOverride?.aisle,
-                    wall: input.globalOverride?.cellStyleOverride?.wall,
-                    door: input.globalOverride?.cellStyleOverride?.door,
-                    custom: input.globalOverride?.cellStyleOverride?.custom
-                }
-            }
-        } as MapLayout;
+        return MapLayoutModel.inputProcessing(input);
     }
 
-    constructor(mode: MapMode, canvasId: string, mapLayout: MapLayoutInput, editMenuId?: string, toolbeltId?: string, lockedCells: number[] = []) {
+    constructor(mode: MapMode, canvasId: string, mapLayout: MapLayoutInput, editMenuId?: string, toolbeltId?: string, lockedCells: number[] = [], options: MapOptions = {}) {
         super();
         this.mode = mode;
 
-        this.history = new MapLayoutHistory(Map.inputProcessing(mapLayout));
-        this.mapWidth = mapLayout.x * CELL_SIZE;
-        this.mapHeight = mapLayout.y * CELL_SIZE;
+        this.state.seatStates = { ...options.seatStates };
+        this.seatStateStyles = { ...DEFAULT_SEAT_STATE_STYLES, ...options.seatStateStyles };
+        this.selectionRules = { ...this.selectionRules, ...options.selection };
+        this.bookingClient = options.booking ?? null;
+
+        this.historyDepth = options.historyDepth ?? DEFAULT_HISTORY_DEPTH;
+
+        this.layout = new MapLayoutModel(mapLayout);
+        this.history = this.createHistory();
+        this.state.selectedCells = [];
+        this.state.hoveredCell = -1;
+
+        if (options.history) {
+            this.history.restore(options.history);
+        }
 
         this.camera.zoom = this.history.mapLayout.globalOverride.zoomLevel;
 
@@ -149,6 +187,17 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             el.style.display = "block";
 
             this.editMenu = new EditMenu(this, editMenuId, lockedCells, toolbeltId || '');
+
+            if (options.autosave) {
+                // Maps on different canvases don't share snapshots unless they are given the same key
+                this.autosave = new MapAutosave(this, { key: `${DEFAULT_AUTOSAVE_OPTIONS.key}:${canvasId}`, ...options.autosave });
+
+                const snapshot = this.autosave.getRecoverableSnapshot();
+
+                if (snapshot !== null) {
+                    this.editMenu.showRecoveryPrompt(snapshot);
+                }
+            }
         }
 
         this.canvas.addEventListener("wheel", (event) => {
@@ -179,6 +228,11 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         this.canvas.addEventListener("keydown", (event) => {
             const adjustedKey = event.key.toLowerCase();
 
+            // Alt and the left arrow would otherwise go back in the browser history
+            if (this.mode === "edit" && event.altKey && adjustedKey.startsWith("arrow")) {
+                event.preventDefault();
+            }
+
             if (this.controller.keysPressed.includes(adjustedKey)) return;
 
             this.controller.keysPressed.push(adjustedKey);
@@ -200,11 +254,33 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             this.runKeyboardControls(KeyboardRunReason.Interval);
         }, 32);
 
+        // Ctrl+C, Ctrl+X and Ctrl+V go through the system clipboard, so cells can be pasted in other maps and tabs
+        this.canvas.addEventListener("copy", (event) => this.handleClipboardCopy(event, false));
+        this.canvas.addEventListener("cut", (event) => this.handleClipboardCopy(event, true));
+
+        this.canvas.addEventListener("paste", (event) => {
+            if (this.mode !== "edit" || this.state.selectedCells.length === 0 || event.clipboardData === null) {
+                return;
+            }
+
+            event.preventDefault();
+
+            this.pasteText(event.clipboardData.getData(CLIPBOARD_MIME_TYPE) || event.clipboardData.getData("text/plain"));
+        });
+
         this.canvas.addEventListener("touchstart", this.handleTouchStartDecorator(() => this));
         this.canvas.addEventListener("touchend", this.handleTouchEndDecorator(() => this));
         this.canvas.addEventListener("touchcancel", this.handleTouchCancelDecorator(() => this));
         this.canvas.addEventListener("touchmove", this.handleTouchMoveDecorator(() => this));
 
+        this.canvas.addEventListener("mousemove", (event) => {
+            this.emit("cursormove", [this.camera.x + event.offsetX / this.camera.zoom, this.camera.y + event.offsetY / this.camera.zoom]);
+        });
+
+        this.canvas.addEventListener("mouseleave", () => {
+            this.emit("cursormove", null);
+        });
+
         this.collisions.addEventListener("hover", (collision: Collision<number>) => {
             if (this.state.hoveredCell === collision.reference) {
                 return;
@@ -226,30 +302,52 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                 return;
             }
 
+            if (this.mode === "view" && !this.isSeatSelectable(collision.reference)) {
+                return;
+            }
+
             this.setCursor("pointer");
 
-            if (this.mode === "edit" && this.controller.keysPressed.includes("shift")) {
-                if (this.state.selectedCells.includes(collision.reference)) {
-                    this.state.selectedCells = this.state.selectedCells.filter(cell => cell !== collision.reference);
+            if (this.mode === "edit" && this.tool !== "select") {
+                // A stroke that ends where it started is reported as a click
+                if (this.state.stroke !== null) {
+                    this.finishStroke();
                 } else {
-                    this.state.selectedCells.push(collision.reference);
+                    this.paintCells(getToolCells(this.layout, this.tool, collision.reference, collision.reference), this.getPaintType());
                 }
-            } else {
-                if (this.state.selectedCells.includes(collision.reference)) {
-                    this.state.selectedCells = [];
 
-                    this.emit("select", -collision.reference);
-                } else {
-                    this.state.selectedCells = [collision.reference];
+                return;
+            }
 
-                    this.emit("select", collision.reference);
-                }
+            // A move that ends where it started is reported as a click
+            if (this.state.move !== null) {
+                this.finishMove();
+
+                return;
             }
 
             if (this.mode === "edit") {
+                if (this.controller.keysPressed.includes("shift")) {
+                    if (this.state.selectedCells.includes(collision.reference)) {
+                        this.state.selectedCells = this.state.selectedCells.filter(cell => cell !== collision.reference);
+                    } else {
+                        this.state.selectedCells.push(collision.reference);
+                    }
+                } else {
+                    if (this.state.selectedCells.includes(collision.reference)) {
+                        this.state.selectedCells = [];
+                    } else {
+                        this.state.selectedCells = [collision.reference];
+                    }
+                }
+
                 this.editMenu?.selectCells(this.state.selectedCells);
+            } else if (!this.toggleSeatSelection(collision.reference)) {
+                return;
             }
 
+            this.emitSelectionChange();
+
             this.render();
         })
 
@@ -258,8 +356,20 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                 return;
             }
 
+            if (this.mode === "edit" && this.tool !== "select" && mouseButtons.includes(MouseButtons.LEFT)) {
+                this.continueStroke(this.collisions.drag.latest.x + diffX, this.collisions.drag.latest.y + diffY);
+
+                return;
+            }
+
+            // Dragging a selected cell moves the selection, dragging anywhere else moves the camera
+            if (this.mode === "edit" && mouseButtons.includes(MouseButtons.LEFT) && this.continueMove(this.collisions.drag.latest.x + diffX, this.collisions.drag.latest.y + diffY)) {
+                return;
+            }
+
             if (mouseButtons.includes(MouseButtons.RIGHT)) {
-                if (this.mode === "edit") {
+                // Drawing tools use the left button, so the right one moves the camera instead of selecting
+                if (this.mode === "edit" && this.tool === "select") {
                     if (!this.state.multiSelect.dontSelect) {
                         if (!this.state.multiSelect.selecting) {
                             this.state.multiSelect.selecting = true;
@@ -282,6 +392,13 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     if (this.state.multiSelect.selecting) {
                         this.stopMultiSelect();
                     }
+                } else if (this.mode === "edit") {
+                    this.camera.x -= diffX / this.camera.zoom;
+                    this.camera.y -= diffY / this.camera.zoom;
+
+                    this.setCursor("grabbing");
+
+                    this.keepCameraConstraintsAndRender();
                 }
             } else if (mouseButtons.includes(MouseButtons.LEFT)) {
                 this.state.multiSelect.dontSelect = true;
@@ -300,6 +417,14 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                 return;
             }
 
+            if (this.state.stroke !== null) {
+                this.finishStroke();
+            }
+
+            if (this.state.move !== null) {
+                this.finishMove();
+            }
+
             if (this.state.multiSelect.selecting) {
                 this.stopMultiSelect();
             } else {
@@ -315,6 +440,20 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             this.render();
         });
 
+        this.updateMinZoom();
+
+        this.centerCamera();
+    }
+
+    get mapWidth() {
+        return this.history.mapLayout.x * CELL_SIZE;
+    }
+
+    get mapHeight() {
+        return this.history.mapLayout.y * CELL_SIZE;
+    }
+
+    private updateMinZoom() {
         let [minX, maxX, minY, maxY] = this.getCellBounds();
 
         if (this.mode === "edit" || this.mode === "preview") {
@@ -322,224 +461,1041 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         } else {
             this.minZoom = Math.max(this.canvas.height / (maxY - minY), this.canvas.width / (maxX - minX)) + 0.1;
         }
-
-        this.centerCamera();
     }
 
-    public switchLayout(mapLayout: MapLayoutInput) {
-        this.history = new MapLayoutHistory(Map.inputProcessing(mapLayout));
-        this.mapWidth = mapLayout.x * CELL_SIZE;
-        this.mapHeight = mapLayout.y * CELL_SIZE;
-
-        this.render();
-    }
+    private createHistory() {
+        const history = new MapLayoutHistory(this.layout.mapLayout, this.historyDepth);
 
-    stopMultiSelect() {
-        if (this.mode !== "edit") {
-            return;
+        if (this.mode === "edit") {
+            this.layout.assignMissingCellIds();
+            history.assignCellIds = true;
         }
 
-        this.state.multiSelect.selecting = false;
-        this.state.multiSelect.dontSelect = false;
+        history.on("historychange", change => {
+            this.emit("historychange", change);
+        });
 
-        // find all cells in the given multicelect rectangle by using the collisions manager
-        const startX = Math.min(this.state.multiSelect.start.x, this.state.multiSelect.current.x);
-        const startY = Math.min(this.state.multiSelect.start.y, this.state.multiSelect.current.y);
-        const endX = Math.max(this.state.multiSelect.start.x, this.state.multiSelect.current.x);
-        const endY = Math.max(this.state.multiSelect.start.y, this.state.multiSelect.current.y);
+        history.on("resize", operation => {
+            this.handleResize(operation);
+        });
 
-        const cellsInRectangle: number[] = [];
-        for (let collision of this.collisions.collisions) {
-            if (collision.x + collision.width >= startX && collision.y + collision.height >= startY
-                && collision.x <= endX && collision.y <= endY) {
-                cellsInRectangle.push(collision.reference);
-            }
-        }
+        return history;
+    }
 
-        this.state.selectedCells = Array.from(new Set([...this.state.selectedCells, ...cellsInRectangle]));
+    /**
+     * Reverts the last change to the layout, returns false when there is nothing to undo.
+     */
+    public undo() {
+        return this.afterHistoryStep(this.history.undo());
+    }
 
-        this.state.multiSelect.start = { x: 0, y: 0 };
-        this.state.multiSelect.current = { x: 0, y: 0 };
+    /**
+     * Reapplies the last undone change to the layout, returns false when there is nothing to redo.
+     */
+    public redo() {
+        return this.afterHistoryStep(this.history.redo());
+    }
 
-        this.editMenu?.selectCells(this.state.selectedCells);
+    // Cell indexes held outside the layout move with their cells, those of removed cells are dropped
+    private handleResize(operation: MapLayoutResizeOperation) {
+        const remap = (cellIndexes: number[]) => cellIndexes
+            .map(cellIndex => getResizedCellIndex(operation, cellIndex))
+            .filter(cellIndex => cellIndex !== -1);
 
-        this.render();
-    }
+        this.state.selectedCells = remap(this.state.selectedCells);
+        this.state.hoveredCell = -1;
+        this.state.labelPreview = {};
+        this.state.stroke = null;
+        this.state.blockPreview = null;
+        this.state.move = null;
 
-    handleTouchStartDecorator(mapGetter: () => Map) {
-        return (event: TouchEvent) => {
-            event.preventDefault();
+        if (this.editMenu) {
+            this.editMenu.lockedCells = remap(this.editMenu.lockedCells);
+        }
 
-            const touches = event.changedTouches;
+        this.updateMinZoom();
 
-            for (let i = 0; i < touches.length; i++) {
-                const touch = touches[i];
+        this.emitSelectionChange();
+    }
 
-                if (touch) {
-                    mapGetter().ongoingTouches.push(mapGetter().touchToExtendedTouch(touch));
-                }
-            }
+    /**
+     * Inserts empty rows before the given row, a row equal to the height of the layout adds them at the bottom.
+     * Returns false if nothing was changed.
+     */
+    public insertRows(at: number, count: number = 1) {
+        const { x, y } = this.history.mapLayout;
+
+        if (!Number.isInteger(at) || at < 0 || at > y || !Number.isInteger(count) || count < 1) {
+            console.error(`Cannot insert ${count} rows at row ${at}.`);
+
+            return false;
         }
+
+        return this.resizeGrid(range(0, x), [...range(0, at), ...new Array(count).fill(-1), ...range(at, y)]);
     }
 
-    handleTouchEndDecorator(mapGetter: () => Map) {
-        return (event: TouchEvent) => {
-            event.preventDefault();
+    /**
+     * Removes rows and every cell in them. At least one row is always kept.
+     */
+    public deleteRows(at: number, count: number = 1) {
+        const { x, y } = this.history.mapLayout;
 
-            const touches = event.changedTouches;
+        if (!Number.isInteger(at) || at < 0 || !Number.isInteger(count) || count < 1 || at + count > y || count === y) {
+            console.error(`Cannot delete ${count} rows at row ${at}.`);
 
-            for (let i = 0; i < touches.length; i++) {
-                const touchInTouchList = touches[i];
+            return false;
+        }
 
-                if (touchInTouchList) {
-                    const idx = mapGetter().ongoingTouchIndexById(touchInTouchList.identifier);
+        return this.resizeGrid(range(0, x), [...range(0, at), ...range(at + count, y)]);
+    }
 
-                    if (idx >= 0) {
-                        const touch = mapGetter().ongoingTouches.splice(idx, 1)[0];
+    /**
+     * Inserts empty columns before the given column, a column equal to the width of the layout adds them to the right.
+     */
+    public insertColumns(at: number, count: number = 1) {
+        const { x, y } = this.history.mapLayout;
 
-                        if (touch && !touch.hasMoved) {
-                            mapGetter().collisions.leftClick(touch.pageX, touch.pageY);
-                        }
-                    }
-                }
-            }
+        if (!Number.isInteger(at) || at < 0 || at > x || !Number.isInteger(count) || count < 1) {
+            console.error(`Cannot insert ${count} columns at column ${at}.`);
+
+            return false;
         }
+
+        return this.resizeGrid([...range(0, at), ...new Array(count).fill(-1), ...range(at, x)], range(0, y));
     }
 
-    handleTouchCancelDecorator = this.handleTouchEndDecorator;
+    /**
+     * Removes columns and every cell in them. At least one column is always kept.
+     */
+    public deleteColumns(at: number, count: number = 1) {
+        const { x, y } = this.history.mapLayout;
 
-    handleTouchMoveDecorator(mapGetter: () => Map) {
-        return (event: TouchEvent) => {
-            event.preventDefault();
-            const touches = event.changedTouches;
+        if (!Number.isInteger(at) || at < 0 || !Number.isInteger(count) || count < 1 || at + count > x || count === x) {
+            console.error(`Cannot delete ${count} columns at column ${at}.`);
 
-            const mapContext = mapGetter();
+            return false;
+        }
 
-            if (touches.length !== 2) {
-                const touchInList = touches[0];
+        return this.resizeGrid([...range(0, at), ...range(at + count, x)], range(0, y));
+    }
 
-                if (touchInList) {
-                    const idx = mapContext.ongoingTouchIndexById(touchInList.identifier);
+    /**
+     * Removes the empty rows and columns around the cells, as given by getCellBounds.
+     * Returns false if the layout has no cells or nothing to remove.
+     */
+    public cropToContent() {
+        const { x, y, cells } = this.history.mapLayout;
 
-                    if (idx >= 0) {
-                        const touch = mapContext.ongoingTouches[idx];
-                        if (touch) {
-                            const dx = touchInList.pageX - touch.pageX;
-                            const dy = touchInList.pageY - touch.pageY;
+        if (cells.every(cell => cell === null)) {
+            return false;
+        }
 
-                            mapContext.camera.x -= dx / mapContext.camera.zoom;
-                            mapContext.camera.y -= dy / mapContext.camera.zoom;
+        const [minX, maxX, minY, maxY] = this.getCellBounds().map(bound => bound / CELL_SIZE) as [number, number, number, number];
 
-                            mapContext.ongoingTouches.splice(idx, 1, { identifier: touchInList.identifier, hasMoved: true, pageX: touchInList.pageX, pageY: touchInList.pageY });
-                        } else {
-                            console.error("Touch not found in ongoing touches list.");
-                        }
-                    }
-                }
-            }
+        if (minX === 0 && maxX === x && minY === 0 && maxY === y) {
+            return false;
+        }
 
-            if (touches.length === 2) {
-                const touch1n = touches[0];
-                const touch2n = touches[1];
+        return this.resizeGrid(range(minX, maxX), range(minY, maxY));
+    }
 
-                if (!touch1n) {
-                    console.error("Touch1n not found in ongoing touches list.");
+    private resizeGrid(columns: number[], rows: number[]) {
+        if (this.mode !== "edit") {
+            console.error("Tried to resize the grid while not in edit mode");
 
-                    return;
-                }
+            return false;
+        }
 
-                if (!touch2n) {
-                    console.error("Touch2n not found in ongoing touches list.");
+        const { x } = this.history.mapLayout;
 
-                    return;
-                }
+        if (this.editMenu?.lockedCells.some(cellIndex => !columns.includes(cellIndex % x) || !rows.includes(Math.floor(cellIndex / x)))) {
+            console.error("Cannot remove rows or columns with locked cells.");
 
+            return false;
+        }
 
-                const idx1 = mapContext.ongoingTouchIndexById(touch1n.identifier);
-                const idx2 = mapContext.ongoingTouchIndexById(touch2n.identifier);
+        this.history.resizeGrid(columns, rows);
 
-                if (idx1 >= 0 && idx2 >= 0) {
-                    const touch1 = mapContext.ongoingTouches[idx1];
-                    const touch2 = mapContext.ongoingTouches[idx2];
+        this.editMenu?.selectCells(this.state.selectedCells);
 
-                    if (!touch1) {
-                        console.error("Touch1 not found in ongoing touches list.");
+        this.keepCameraConstraintsAndRender(true);
 
-                        return;
-                    }
+        return true;
+    }
 
-                    if (!touch2) {
-                        console.error("Touch2 not found in ongoing touches list.");
+    /**
+     * Chooses what a left click or drag does in edit mode. The drawing tools paint the cell type chosen in the
+     * edit menu, each stroke as one undo step, and the right button moves the camera while they are in use.
+     */
+    public setTool(tool: EditorTool) {
+        if (this.mode !== "edit") {
+            console.error("Tried to choose a tool while not in edit mode");
 
-                        return;
-                    }
+            return;
+        }
 
-                    const pox1 = touch1.pageX;
-                    const poy1 = touch1.pageY;
-                    const pox2 = touch2.pageX;
-                    const poy2 = touch2.pageY;
+        this.tool = tool;
+        this.state.stroke = null;
 
-                    const distanceBefore = Math.sqrt(Math.pow(pox2 - pox1, 2) + Math.pow(poy2 - poy1, 2));
+        this.render(true);
+    }
 
-                    const pnx1 = touch1n.pageX;
-                    const pny1 = touch1n.pageY;
-                    const pnx2 = touch2n.pageX;
-                    const pny2 = touch2n.pageY;
+    /**
+     * Gives the cells the type as one undo step. Cells that already have it are left as they are, others are
+     * replaced by a new cell of the type. Locked cells are skipped. Returns the amount of cells that changed.
+     */
+    public paintCells(cellIndexes: number[], type: CellType) {
+        const { cells } = this.history.mapLayout;
+        const lockedCells = this.editMenu?.lockedCells ?? [];
 
-                    const distanceAfter = Math.sqrt(Math.pow(pnx2 - pnx1, 2) + Math.pow(pny2 - pny1, 2));
+        const painted = [...new Set(cellIndexes)].filter(cellIndex => cells[cellIndex] !== undefined && cells[cellIndex]?.type !== type && !lockedCells.includes(cellIndex));
 
-                    const middleBetweenTouchesX = (pox1 + pox2) / 2;
-                    const middleBetweenTouchesY = (poy1 + poy2) / 2;
+        if (painted.length === 0) {
+            return 0;
+        }
 
-                    const zoomThrottleConstant = 200;
-                    const zoomThrottle = zoomThrottleConstant / mapContext.camera.zoom;
+        this.history.swapCells(painted, painted.map(cellIndex => cells[cellIndex] ?? null), painted.map(() => ({ type })));
 
-                    if (distanceBefore > distanceAfter) {
-                        this.zoomToLevel(this.camera.zoom - (distanceBefore / zoomThrottle - distanceAfter / zoomThrottle), middleBetweenTouchesX, middleBetweenTouchesY)
-                    } else {
-                        this.zoomToLevel(this.camera.zoom + (distanceAfter / zoomThrottle - distanceBefore / zoomThrottle), middleBetweenTouchesX, middleBetweenTouchesY)
-                    }
+        // The edit menu shows the values of the selected cells, which may just have changed
+        if (this.state.selectedCells.some(cellIndex => painted.includes(cellIndex))) {
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
 
-                    const hasFirstMoved = touch1.pageX !== touch1n.pageX || touch1.pageY !== touch1n.pageY;
-                    const hasSecondMoved = touch2.pageX !== touch2n.pageX || touch2.pageY !== touch2n.pageY;
+        this.render(true);
 
-                    mapContext.ongoingTouches.splice(idx1, 1, { identifier: touch1n.identifier, hasMoved: (touch1.hasMoved ? true : hasFirstMoved), pageX: touch1n.pageX, pageY: touch1n.pageY });
-                    mapContext.ongoingTouches.splice(idx2, 1, { identifier: touch2n.identifier, hasMoved: (touch2.hasMoved ? true : hasSecondMoved), pageX: touch2n.pageX, pageY: touch2n.pageY });
-                }
-            }
+        return painted.length;
+    }
 
-            mapContext.keepCameraConstraintsAndRender();
-        }
+    private getPaintType(): CellType {
+        return this.editMenu?.state.paintType ?? "seat";
+    }
+
+    // Index of the cell at a position on the canvas, -1 outside of the grid
+    private cellIndexAt(canvasX: number, canvasY: number) {
+        const x = Math.floor((this.camera.x + canvasX / this.camera.zoom) / CELL_SIZE);
+        const y = Math.floor((this.camera.y + canvasY / this.camera.zoom) / CELL_SIZE);
+
+        return this.layout.isInBounds(x, y) ? this.layout.coordinatesToCellIndex(x, y) : -1;
+    }
+
+    // Follows the pointer while a drawing tool is dragged, the cells are only shown until the stroke ends
+    private continueStroke(canvasX: number, canvasY: number) {
+        if (this.tool === "select") {
+            return;
+        }
+
+        if (this.state.stroke === null) {
+            const start = this.cellIndexAt(this.collisions.drag.start.x, this.collisions.drag.start.y);
+
+            if (start === -1) {
+                return;
+            }
+
+            this.state.stroke = { tool: this.tool, start, last: start, cells: getToolCells(this.layout, this.tool, start, start) };
+        }
+
+        const stroke = this.state.stroke;
+        const cellIndex = this.cellIndexAt(canvasX, canvasY);
+
+        if (cellIndex === -1 || cellIndex === stroke.last) {
+            return;
+        }
+
+        if (stroke.tool === "brush") {
+            // Filled in from the last cell, the pointer skips cells when moved fast
+            stroke.cells = [...new Set([...stroke.cells, ...getLineCells(this.layout, stroke.last, cellIndex)])];
+        } else {
+            stroke.cells = getToolCells(this.layout, stroke.tool, stroke.start, cellIndex);
+        }
+
+        stroke.last = cellIndex;
+
+        this.render();
+    }
+
+    private finishStroke() {
+        const stroke = this.state.stroke;
+
+        this.state.stroke = null;
+
+        if (stroke !== null && this.paintCells(stroke.cells, this.getPaintType()) === 0) {
+            this.render(true);
+        }
+    }
+
+    private afterHistoryStep(changed: boolean) {
+        if (!changed) {
+            return false;
+        }
+
+        // The edit menu shows the values of the selected cells, which may just have changed
+        if (this.mode === "edit") {
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
+
+        this.render(true);
+
+        return true;
+    }
+
+    public switchLayout(mapLayout: MapLayoutInput, history?: SerializedMapLayoutHistory) {
+        this.layout = new MapLayoutModel(mapLayout);
+        this.history = this.createHistory();
+
+        if (history) {
+            this.history.restore(history);
+        }
+
+        this.updateMinZoom();
+
+        this.render();
+    }
+
+    /**
+     * Updates the reservation state of seats without touching the layout, camera or selection.
+     * Seats that become unselectable are deselected.
+     */
+    public setSeatStates(seatStates: SeatStates, replace = false) {
+        this.mergeSeatStates(seatStates, replace);
+        this.dropUnselectableSelection();
+
+        this.render(true);
+    }
+
+    /**
+     * Applies a live update of cells and seat states, e.g. from a SeatAvailabilityAdapter.
+     * Camera, hover and selection are kept, seats that become unselectable are deselected.
+     * Only the area of the changed cells is redrawn.
+     */
+    public updateCells(patch: MapCellPatch) {
+        const { cells } = this.history.mapLayout;
+        const changedCells = new Set<number>();
+
+        if (patch.cells) {
+            const swap: { index: number[], was: Cell[], became: Cell[] } = { index: [], was: [], became: [] };
+
+            for (const key in patch.cells) {
+                const index = parseInt(key, 10);
+                const cell = patch.cells[index];
+
+                if (cell === undefined || cells[index] === undefined) {
+                    console.error(`Cannot update cell ${key} outside of the layout.`);
+
+                    continue;
+                }
+
+                swap.index.push(index);
+                swap.was.push(cells[index]);
+                swap.became.push(cell);
+                changedCells.add(index);
+            }
+
+            // Live updates aren't edits, so they don't become undo steps and undoing an earlier edit can't revert them
+            const operations: MapLayoutHistoryOperation[] = [{ action: "swapCells", ...swap }];
+
+            this.history.applyOperations(operations);
+            this.history.rebase(operations);
+        }
+
+        if (patch.seatStates || patch.replaceSeatStates) {
+            const previousSeatStates = this.state.seatStates;
+
+            this.mergeSeatStates(this.keepOwnSeats(patch), patch.replaceSeatStates);
+
+            for (const key of new Set([...Object.keys(previousSeatStates), ...Object.keys(this.state.seatStates)])) {
+                const index = parseInt(key, 10);
+
+                if (previousSeatStates[index] !== this.state.seatStates[index]) {
+                    changedCells.add(index);
+                }
+            }
+        }
+
+        if (this.mode === "edit" && this.state.selectedCells.some(index => changedCells.has(index))) {
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
+
+        this.dropUnselectableSelection();
+
+        this.renderCells([...changedCells]);
+    }
+
+    /**
+     * Applies every patch the adapter delivers with updateCells. Returns a function that disconnects it.
+     */
+    public connectSeatAvailability(adapter: SeatAvailabilityAdapter) {
+        adapter.connect(patch => this.updateCells(patch));
+
+        return () => adapter.disconnect();
+    }
+
+    /**
+     * Holds the selected seats with the booking client for the given amount of minutes, or the backend's default.
+     * Held seats are deselected and shown as "mine", seats someone else got first are deselected.
+     */
+    public async holdSelectedSeats(minutes?: number): Promise<BookingResult> {
+        const seats = this.getSelectedCells();
+        const result = await this.book(seats, client => client.hold(seats, minutes));
+
+        const deselect = result.ok ? result.seats : result.unavailable;
+
+        if (deselect.length > 0) {
+            this.state.selectedCells = this.state.selectedCells.filter(index => !deselect.includes(index));
+
+            this.emitSelectionChange();
+            this.renderCells(deselect);
+        }
+
+        if (result.ok) {
+            this.setOwnSeats(result.seats, "held");
+        }
+
+        return result;
+    }
+
+    /**
+     * Turns held seats into bookings, by default every seat held by this viewer.
+     */
+    public async confirmBooking(seats: number[] = this.getOwnSeats("held")): Promise<BookingResult> {
+        const result = await this.book(seats, client => client.confirm(seats));
+
+        if (result.ok) {
+            this.setOwnSeats(result.seats, "booked");
+        }
+
+        return result;
+    }
+
+    /**
+     * Gives up held or booked seats, by default every seat of this viewer.
+     */
+    public async releaseSeats(seats: number[] = this.getOwnSeats()): Promise<BookingResult> {
+        const result = await this.book(seats, client => client.release(seats));
+
+        if (result.ok) {
+            this.setOwnSeats(result.seats, null);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the seats this viewer holds or has booked, optionally only those with the given status.
+     */
+    public getOwnSeats(status?: "held" | "booked"): number[] {
+        return Object.keys(this.state.ownSeats)
+            .map(key => parseInt(key, 10))
+            .filter(index => status === undefined || this.state.ownSeats[index] === status);
+    }
+
+    private async book(seats: number[], call: (client: BookingClient) => Promise<BookingResult>): Promise<BookingResult> {
+        if (this.bookingClient === null) {
+            console.error("Booking seats requires a booking client.");
+
+            return { ok: false, error: "No booking client", unavailable: [] };
+        }
+
+        if (seats.length === 0) {
+            return { ok: true, seats: [], expiresAt: null };
+        }
+
+        return call(this.bookingClient);
+    }
+
+    private setOwnSeats(seats: number[], status: "held" | "booked" | null) {
+        const seatStates: SeatStates = {};
+
+        for (const index of seats) {
+            if (status === null) {
+                delete this.state.ownSeats[index];
+            } else {
+                this.state.ownSeats[index] = status;
+            }
+
+            seatStates[index] = status === null ? "available" : "mine";
+        }
+
+        this.updateCells({ seatStates });
+
+        this.emit("bookingchange", { ...this.state.ownSeats });
+    }
+
+    // The availability feed shows everyone's seats as held or booked, this viewer's own seats stay "mine"
+    // until the feed shows them as released, e.g. when a hold expired
+    private keepOwnSeats(patch: MapCellPatch): SeatStates {
+        const seatStates: SeatStates = { ...patch.seatStates };
+        let changed = false;
+
+        for (const index of this.getOwnSeats()) {
+            const seatState = seatStates[index] ?? (patch.replaceSeatStates ? "available" : undefined);
+
+            if (seatState === "held" || seatState === "booked" || seatState === "mine") {
+                seatStates[index] = "mine";
+            } else if (seatState !== undefined) {
+                delete this.state.ownSeats[index];
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.emit("bookingchange", { ...this.state.ownSeats });
+        }
+
+        return seatStates;
+    }
+
+    private mergeSeatStates(seatStates: SeatStates, replace = false) {
+        const merged: SeatStates = replace ? {} : { ...this.state.seatStates };
+
+        for (const key in seatStates) {
+            const index = parseInt(key, 10);
+            const seatState = seatStates[index];
+
+            if (seatState === undefined || seatState === "available") {
+                delete merged[index];
+            } else {
+                merged[index] = seatState;
+            }
+        }
+
+        this.state.seatStates = merged;
+    }
+
+    private dropUnselectableSelection() {
+        if (this.mode !== "view") {
+            return;
+        }
+
+        const selectableCells = this.state.selectedCells.filter(index => this.isSeatSelectable(index));
+
+        if (selectableCells.length !== this.state.selectedCells.length) {
+            this.state.selectedCells = selectableCells;
+
+            this.emitSelectionChange();
+        }
+    }
+
+    public getSeatState(cellIndex: number): SeatState {
+        return this.state.seatStates[cellIndex] ?? "available";
+    }
+
+    isSeatSelectable(cellIndex: number) {
+        return !UNSELECTABLE_SEAT_STATES.includes(this.getSeatState(cellIndex));
+    }
+
+    public setSelectionRules(rules: Partial<SelectionRules>) {
+        this.selectionRules = { ...this.selectionRules, ...rules };
+    }
+
+    public getSelectedCells(): number[] {
+        return [...this.state.selectedCells];
+    }
+
+    public getCellById(id: string): Cell | undefined {
+        return this.layout.getCellById(id);
+    }
+
+    /**
+     * Returns the index of the cell with the given id, or -1 if no cell has it.
+     */
+    public getCellIndexById(id: string): number {
+        return this.layout.getCellIndexById(id);
+    }
+
+    /**
+     * Replaces the selection with the cells with the given ids. Outside of edit mode only seats can be selected
+     * and the selection rules apply. Returns false and leaves the selection unchanged if any cell can't be selected.
+     */
+    public selectById(ids: string[]): boolean {
+        const cellIndexes = ids.map(id => this.getCellIndexById(id));
+
+        if (cellIndexes.includes(-1)) {
+            console.error(`No cell with id ${ids[cellIndexes.indexOf(-1)]}.`);
+
+            return false;
+        }
+
+        if (this.mode !== "edit") {
+            const { maxSelected, requireAdjacent } = this.selectionRules;
+
+            const selectable = cellIndexes.every(cellIndex => this.history.mapLayout.cells[cellIndex]?.type === "seat" && this.isSeatSelectable(cellIndex));
+
+            if (!selectable || cellIndexes.length > maxSelected || (requireAdjacent && !this.areCellsAdjacent(cellIndexes))) {
+                return false;
+            }
+        }
+
+        this.state.selectedCells = [...new Set(cellIndexes)];
+
+        if (this.mode === "edit") {
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
+
+        this.emitSelectionChange();
+
+        this.render();
+
+        return true;
+    }
+
+    /**
+     * Returns the sections of the layout and the rows in them.
+     */
+    public getSections(): MapSection[] {
+        return JSON.parse(JSON.stringify(this.history.mapLayout.sections));
+    }
+
+    /**
+     * Returns the section and row the cell is in, or null if it is in none.
+     */
+    public getRowOfCell(cellIndex: number): { section: MapSection, row: MapRow } | null {
+        return this.layout.getRowOfCell(cellIndex);
+    }
+
+    /**
+     * Moves the cells into the named row of the named section as one undo step, both are created if needed.
+     * Empty cells can't be in a row and are skipped. Returns false if nothing was changed.
+     */
+    public groupCellsAsRow(cellIndexes: number[], sectionName: string, rowName: string) {
+        if (this.mode !== "edit") {
+            console.error("Tried to group cells while not in edit mode");
+
+            return false;
+        }
+
+        if (sectionName.trim() === "" || rowName.trim() === "") {
+            console.error("Cannot group cells into a section or row without a name.");
+
+            return false;
+        }
+
+        const cellIds = this.getCellIds(cellIndexes);
+
+        if (cellIds.length === 0) {
+            return false;
+        }
+
+        this.history.setSections(assignCellsToRow(this.history.mapLayout.sections, cellIds, sectionName.trim(), rowName.trim()));
+
+        return true;
+    }
+
+    /**
+     * Takes the cells out of their rows as one undo step. Returns false if none of them was in a row.
+     */
+    public removeCellsFromRows(cellIndexes: number[]) {
+        if (this.mode !== "edit") {
+            console.error("Tried to ungroup cells while not in edit mode");
+
+            return false;
+        }
+
+        if (cellIndexes.every(cellIndex => this.layout.getRowOfCell(cellIndex) === null)) {
+            return false;
+        }
+
+        this.history.setSections(removeCellsFromRows(this.history.mapLayout.sections, this.getCellIds(cellIndexes)));
+
+        return true;
+    }
+
+    private getCellIds(cellIndexes: number[]): string[] {
+        return cellIndexes
+            .map(cellIndex => this.history.mapLayout.cells[cellIndex]?.id)
+            .filter(id => id !== undefined) as string[];
+    }
+
+    /**
+     * Names every seat after its row and position in it, like "B-14", as one undo step. Only the seats among
+     * cellIndexes are named when it is given. Options left out use DEFAULT_SEAT_LABEL_OPTIONS.
+     * Clears the label preview. Returns the amount of seats that were renamed.
+     */
+    public generateSeatLabels(options: Partial<SeatLabelOptions> = {}, cellIndexes?: number[]) {
+        if (this.mode !== "edit") {
+            console.error("Tried to generate seat labels while not in edit mode");
+
+            return 0;
+        }
+
+        const labelOptions = { ...DEFAULT_SEAT_LABEL_OPTIONS, ...options };
+
+        if (!isValidSeatLabelStart(labelOptions)) {
+            console.error("Seats counted in letters must start from at least 1");
+
+            return 0;
+        }
+
+        const changes = getSeatLabelChanges(this.layout, labelOptions, cellIndexes);
+
+        this.state.labelPreview = {};
+
+        if (changes.index.length > 0) {
+            this.history.changeAttributes(changes.index, "name", changes.was, changes.became);
+        }
+
+        this.render(true);
+
+        return changes.index.length;
+    }
+
+    /**
+     * Shows the labels generateSeatLabels would give over the seats, without changing the layout.
+     */
+    public previewSeatLabels(options: Partial<SeatLabelOptions> = {}, cellIndexes?: number[]) {
+        const labelOptions = { ...DEFAULT_SEAT_LABEL_OPTIONS, ...options };
+
+        if (!isValidSeatLabelStart(labelOptions)) {
+            console.error("Seats counted in letters must start from at least 1");
+
+            return;
+        }
+
+        this.state.labelPreview = getSeatLabels(this.layout, labelOptions, cellIndexes);
+
+        this.render(true);
+    }
+
+    public clearSeatLabelPreview() {
+        if (Object.keys(this.state.labelPreview).length === 0) {
+            return;
+        }
+
+        this.state.labelPreview = {};
+
+        this.render(true);
+    }
+
+    /**
+     * Inserts a block of seats, with aisles and optional tables, with its top left corner in the origin cell
+     * as one undo step. The seats are named with the template. Options left out use DEFAULT_SEAT_BLOCK_OPTIONS.
+     * Cells of the block outside the grid and locked cells are skipped. Clears the block preview.
+     * Returns the amount of cells that were inserted.
+     */
+    public insertSeatBlock(origin: number, options: Partial<SeatBlockOptions> = {}) {
+        if (this.mode !== "edit") {
+            console.error("Tried to insert a seat block while not in edit mode");
+
+            return 0;
+        }
+
+        if (this.history.mapLayout.cells[origin] === undefined) {
+            console.error(`Tried to insert a seat block at cell ${origin}, which is outside the grid`);
+
+            return 0;
+        }
+
+        const { cells } = this.history.mapLayout;
+        const lockedCells = this.editMenu?.lockedCells ?? [];
+        const block = getSeatBlockCells(this.layout, origin, { ...DEFAULT_SEAT_BLOCK_OPTIONS, ...options });
+
+        const inserted = block.index.map((cellIndex, i) => [cellIndex, i] as const).filter(([cellIndex]) => !lockedCells.includes(cellIndex));
+
+        this.state.blockPreview = null;
+
+        if (inserted.length > 0) {
+            this.history.swapCells(
+                inserted.map(([cellIndex]) => cellIndex),
+                inserted.map(([cellIndex]) => cells[cellIndex] ?? null),
+                inserted.map(([, i]) => ({ ...block.cells[i] as PureCell }))
+            );
+        }
+
+        // The edit menu shows the values of the selected cells, which may just have changed
+        if (this.state.selectedCells.some(cellIndex => block.index.includes(cellIndex))) {
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
+
+        this.render(true);
+
+        return inserted.length;
+    }
+
+    /**
+     * Shows the cells insertSeatBlock would insert, and the names of the seats, without changing the layout.
+     */
+    public previewSeatBlock(origin: number, options: Partial<SeatBlockOptions> = {}) {
+        this.state.blockPreview = getSeatBlockCells(this.layout, origin, { ...DEFAULT_SEAT_BLOCK_OPTIONS, ...options });
+
+        this.render(true);
+    }
+
+    public clearSeatBlockPreview() {
+        if (this.state.blockPreview === null) {
+            return;
+        }
+
+        this.state.blockPreview = null;
+
+        this.render(true);
+    }
+
+    /**
+     * Selects or deselects a cell outside of edit mode while respecting the selection rules.
+     * Returns false if the selection was left unchanged.
+     */
+    private toggleSeatSelection(cellIndex: number) {
+        const { selectedCells } = this.state;
+        const { maxSelected, requireAdjacent } = this.selectionRules;
+
+        if (selectedCells.includes(cellIndex)) {
+            const remainingCells = selectedCells.filter(cell => cell !== cellIndex);
+
+            // Removing a seat from the middle of a group would split it in two
+            if (requireAdjacent && !this.areCellsAdjacent(remainingCells)) {
+                return false;
+            }
+
+            this.state.selectedCells = remainingCells;
+
+            return true;
+        }
+
+        if (maxSelected === 1) {
+            this.state.selectedCells = [cellIndex];
+
+            return true;
+        }
+
+        if (selectedCells.length >= maxSelected) {
+            return false;
+        }
+
+        if (requireAdjacent && !this.areCellsAdjacent([...selectedCells, cellIndex])) {
+            return false;
+        }
+
+        this.state.selectedCells = [...selectedCells, cellIndex];
+
+        return true;
+    }
+
+    areCellsAdjacent(cellIndexes: number[]) {
+        return this.layout.areCellsAdjacent(cellIndexes);
+    }
+
+    /**
+     * Shows the cursors and selections of other editors on top of the map.
+     */
+    public setRemotePresences(presences: RemotePresence[]) {
+        this.state.remotePresences = presences;
+
+        this.render(true);
+    }
+
+    private emitSelectionChange() {
+        this.emit("selectionchange", [...this.state.selectedCells]);
+        this.emit("selectionidschange", this.state.selectedCells.map(cellIndex => this.history.mapLayout.cells[cellIndex]?.id));
+    }
+
+    stopMultiSelect() {
+        if (this.mode !== "edit") {
+            return;
+        }
+
+        this.state.multiSelect.selecting = false;
+        this.state.multiSelect.dontSelect = false;
+
+        // find all cells in the given multicelect rectangle by using the collisions manager
+        const startX = Math.min(this.state.multiSelect.start.x, this.state.multiSelect.current.x);
+        const startY = Math.min(this.state.multiSelect.start.y, this.state.multiSelect.current.y);
+        const endX = Math.max(this.state.multiSelect.start.x, this.state.multiSelect.current.x);
+        const endY = Math.max(this.state.multiSelect.start.y, this.state.multiSelect.current.y);
+
+        const cellsInRectangle: number[] = [];
+        for (let collision of this.collisions.collisions) {
+            if (collision.x + collision.width >= startX && collision.y + collision.height >= startY
+                && collision.x <= endX && collision.y <= endY) {
+                cellsInRectangle.push(collision.reference);
+            }
+        }
+
+        this.state.selectedCells = Array.from(new Set([...this.state.selectedCells, ...cellsInRectangle]));
+
+        this.state.multiSelect.start = { x: 0, y: 0 };
+        this.state.multiSelect.current = { x: 0, y: 0 };
+
+        this.editMenu?.selectCells(this.state.selectedCells);
+
+        this.emitSelectionChange();
+
+        this.render();
+    }
+
+    handleTouchStartDecorator(mapGetter: () => Map) {
+        return (event: TouchEvent) => {
+            event.preventDefault();
+
+            const touches = event.changedTouches;
+
+            for (let i = 0; i < touches.length; i++) {
+                const touch = touches[i];
+
+                if (touch) {
+                    mapGetter().ongoingTouches.push(mapGetter().touchToExtendedTouch(touch));
+                }
+            }
+        }
+    }
+
+    handleTouchEndDecorator(mapGetter: () => Map) {
+        return (event: TouchEvent) => {
+            event.preventDefault();
+
+            const touches = event.changedTouches;
+
+            for (let i = 0; i < touches.length; i++) {
+                const touchInTouchList = touches[i];
+
+                if (touchInTouchList) {
+                    const idx = mapGetter().ongoingTouchIndexById(touchInTouchList.identifier);
+
+                    if (idx >= 0) {
+                        const touch = mapGetter().ongoingTouches.splice(idx, 1)[0];
+
+                        if (touch && !touch.hasMoved) {
+                            mapGetter().collisions.leftClick(touch.pageX, touch.pageY);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    handleTouchCancelDecorator = this.handleTouchEndDecorator;
+
+    handleTouchMoveDecorator(mapGetter: () => Map) {
+        return (event: TouchEvent) => {
+            event.preventDefault();
+            const touches = event.changedTouches;
+
+            const mapContext = mapGetter();
+
+            if (touches.length !== 2) {
+                const touchInList = touches[0];
+
+                if (touchInList) {
+                    const idx = mapContext.ongoingTouchIndexById(touchInList.identifier);
+
+                    if (idx >= 0) {
+                        const touch = mapContext.ongoingTouches[idx];
+                        if (touch) {
+                            const dx = touchInList.pageX - touch.pageX;
+                            const dy = touchInList.pageY - touch.pageY;
+
+                            mapContext.camera.x -= dx / mapContext.camera.zoom;
+                            mapContext.camera.y -= dy / mapContext.camera.zoom;
+
+                            mapContext.ongoingTouches.splice(idx, 1, { identifier: touchInList.identifier, hasMoved: true, pageX: touchInList.pageX, pageY: touchInList.pageY });
+                        } else {
+                            console.error("Touch not found in ongoing touches list.");
+                        }
+                    }
+                }
+            }
+
+            if (touches.length === 2) {
+                const touch1n = touches[0];
+                const touch2n = touches[1];
+
+                if (!touch1n) {
+                    console.error("Touch1n not found in ongoing touches list.");
+
+                    return;
+                }
+
+                if (!touch2n) {
+                    console.error("Touch2n not found in ongoing touches list.");
+
+                    return;
+                }
+
+
+                const idx1 = mapContext.ongoingTouchIndexById(touch1n.identifier);
+                const idx2 = mapContext.ongoingTouchIndexById(touch2n.identifier);
+
+                if (idx1 >= 0 && idx2 >= 0) {
+                    const touch1 = mapContext.ongoingTouches[idx1];
+                    const touch2 = mapContext.ongoingTouches[idx2];
+
+                    if (!touch1) {
+                        console.error("Touch1 not found in ongoing touches list.");
+
+                        return;
+                    }
+
+                    if (!touch2) {
+                        console.error("Touch2 not found in ongoing touches list.");
+
+                        return;
+                    }
+
+                    const pox1 = touch1.pageX;
+                    const poy1 = touch1.pageY;
+                    const pox2 = touch2.pageX;
+                    const poy2 = touch2.pageY;
+
+                    const distanceBefore = Math.sqrt(Math.pow(pox2 - pox1, 2) + Math.pow(poy2 - poy1, 2));
+
+                    const pnx1 = touch1n.pageX;
+                    const pny1 = touch1n.pageY;
+                    const pnx2 = touch2n.pageX;
+                    const pny2 = touch2n.pageY;
+
+                    const distanceAfter = Math.sqrt(Math.pow(pnx2 - pnx1, 2) + Math.pow(pny2 - pny1, 2));
+
+                    const middleBetweenTouchesX = (pox1 + pox2) / 2;
+                    const middleBetweenTouchesY = (poy1 + poy2) / 2;
+
+                    const zoomThrottleConstant = 200;
+                    const zoomThrottle = zoomThrottleConstant / mapContext.camera.zoom;
+
+                    if (distanceBefore > distanceAfter) {
+                        this.zoomToLevel(this.camera.zoom - (distanceBefore / zoomThrottle - distanceAfter / zoomThrottle), middleBetweenTouchesX, middleBetweenTouchesY)
+                    } else {
+                        this.zoomToLevel(this.camera.zoom + (distanceAfter / zoomThrottle - distanceBefore / zoomThrottle), middleBetweenTouchesX, middleBetweenTouchesY)
+                    }
+
+                    const hasFirstMoved = touch1.pageX !== touch1n.pageX || touch1.pageY !== touch1n.pageY;
+                    const hasSecondMoved = touch2.pageX !== touch2n.pageX || touch2.pageY !== touch2n.pageY;
+
+                    mapContext.ongoingTouches.splice(idx1, 1, { identifier: touch1n.identifier, hasMoved: (touch1.hasMoved ? true : hasFirstMoved), pageX: touch1n.pageX, pageY: touch1n.pageY });
+                    mapContext.ongoingTouches.splice(idx2, 1, { identifier: touch2n.identifier, hasMoved: (touch2.hasMoved ? true : hasSecondMoved), pageX: touch2n.pageX, pageY: touch2n.pageY });
+                }
+            }
+
+            mapContext.keepCameraConstraintsAndRender();
+        }
     }
 
     runKeyboardControls(reason: KeyboardRunReason) {
         if (this.controller.keysPressed.length > 0) {
             if (reason === KeyboardRunReason.KeyDown) {
+                if (this.mode === "edit" && this.controller.keysPressed.includes("alt") && this.state.selectedCells.length > 0) {
+                    const key = this.controller.keysPressed[this.controller.keysPressed.length - 1];
+                    const nudges: Record<string, [number, number]> = { arrowup: [0, -1], arrowdown: [0, 1], arrowleft: [-1, 0], arrowright: [1, 0] };
+                    const nudge = key === undefined ? undefined : nudges[key];
+
+                    if (nudge !== undefined) {
+                        this.moveSelection(...nudge);
+                    }
+                }
+
                 if (this.controller.keysPressed.includes("control")) {
                     if (this.mode === "edit") {
-                        if (this.state.selectedCells.length > 0) {
-                            if (this.controller.keysPressed.includes("c")) {
-                                this.copyCellsBySelection();
-                            } else if (this.controller.keysPressed.includes("x")) {
-                                this.cutCellsBySelection();
-                            } else if (this.controller.keysPressed.includes("v")) {
-                                this.pasteCells();
-                            }
-                        }
-
                         if (this.controller.keysPressed.includes("z")) {
                             if (this.controller.keysPressed.includes("shift")) {
-                                this.history.redo();
+                                this.redo();
                             } else {
-                                this.history.undo();
+                                this.undo();
                             }
-
-                            this.render();
+                        } else if (this.controller.keysPressed.includes("y")) {
+                            this.redo();
                         }
                     }
                 }
             }
-            if (reason === KeyboardRunReason.Interval) {
+            // Alt and the arrow keys move the selection instead of the camera
+            if (reason === KeyboardRunReason.Interval && !(this.mode === "edit" && this.controller.keysPressed.includes("alt"))) {
                 let render = false;
 
                 let movementMultiplier = this.controller.keysPressed.includes("shift") ? 3 : 1;
@@ -579,168 +1535,503 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         }
     }
 
-    copyCellsBySelection() {
-        if (this.mode !== "edit") {
-            console.error("Tried to copy cells while not in edit mode");
+    copyCellsBySelection() {
+        if (this.mode !== "edit") {
+            console.error("Tried to copy cells while not in edit mode");
+            return false;
+        }
+
+        const selection = this.state.selectedCells;
+
+        const rows: (Cell | undefined)[][] = [];
+
+        const bounds = this.getSelectionCellBoundsAsCoordinates();
+
+        if (bounds[0] === null) {
+            console.error("Couldnt get bounds while trying to copy cells")
+            return false;
+        }
+
+        for (let y = bounds[2]; y <= bounds[3]; y++) {
+            const row: (Cell | undefined)[] = [];
+
+            for (let x = bounds[0]; x <= bounds[1]; x++) {
+                const cellIndex = this.coordinatesToCellIndex(x, y);
+
+                if (selection.includes(cellIndex)) {
+                    row.push(this.history.mapLayout.cells[cellIndex]);
+                } else {
+                    row.push(undefined);
+                }
+            }
+
+            rows.push(row);
+        }
+
+        this.state.copying.cells = structuredClone(rows);
+        this.state.copying.bounds = bounds;
+        this.state.copying.text = null;
+
+        return true;
+    }
+
+    cutCellsBySelection() {
+        const copy = this.copyCellsBySelection();
+
+        if (!copy) {
+            return false;
+        }
+
+        const selection = this.state.selectedCells;
+
+        const selectionBounds = this.state.copying.bounds;
+
+        if (selectionBounds[0] === null) {
+            console.error("Couldnt get bounds while trying to cut cells")
+
+            return false;
+        }
+
+        const indexes: number[] = [];
+        const from: Cell[] = [];
+        const to: Cell[] = [];
+
+        for (let y = selectionBounds[2]; y <= selectionBounds[3]; y++) {
+            for (let x = selectionBounds[0]; x <= selectionBounds[1]; x++) {
+                const cellIndex = this.coordinatesToCellIndex(x, y);
+
+                if (!selection.includes(cellIndex)) {
+                    continue;
+                }
+
+                const cell = this.history.mapLayout.cells[cellIndex];
+
+                if (cell === undefined) {
+                    console.error("Cannot cut cell with undefined cell.");
+                    continue;
+                }
+
+                indexes.push(cellIndex);
+                from.push(cell);
+                to.push(null);
+            }
+        }
+
+        this.history.swapCells(indexes, from, to);
+
+        this.render();
+
+        return true;
+    }
+
+    pasteCells() {
+        if (this.mode !== "edit") {
+            console.error("Tried to paste cells while not in edit mode");
+            return false;
+        }
+
+        const firstCellIndex = this.getFirstCellIndexOfSelection();
+
+        if (firstCellIndex === null) {
+            console.error("Tried to paste cells but first cell index was null");
+
+            return false;
+        }
+
+        const startingPoint = this.getCoordinatesOfCell(firstCellIndex);
+
+        if (startingPoint[0] === null) {
+            console.error("Tried to paste cells but starting point was null");
+
+            return false;
+        }
+
+        const rows = this.state.copying.cells;
+        const bounds = this.state.copying.bounds;
+
+        if (bounds[0] === null) {
+            console.error("Tried to paste cells but bounds were null");
+
+            return false;
+        }
+
+        const endX = startingPoint[0] + bounds[1] - bounds[0] + 1;
+        const endY = startingPoint[1] + bounds[3] - bounds[2] + 1;
+
+        const indices: number[] = [];
+        const from: Cell[] = [];
+        const to: Cell[] = [];
+
+        for (let y = startingPoint[1]; y < endY; y++) {
+            const row = rows[y - startingPoint[1]];
+
+            if (row === undefined) {
+                console.error("Cannot paste cells because row is undefined.");
+
+                return;
+            }
+
+            for (let x = startingPoint[0]; x < endX; x++) {
+                const cellData = row[x - startingPoint[0]];
+                const cellIndex = this.coordinatesToCellIndex(x, y);
+
+                // Cells past the right edge would otherwise wrap around to the next row
+                if (cellData === undefined || !this.layout.isInBounds(x, y)) {
+                    continue;
+                }
+
+                const cell = this.history.mapLayout.cells[cellIndex];
+
+                if (cell === undefined) {
+                    console.error("Cannot paste cell with undefined cell.");
+
+                    continue;
+                }
+
+                indices.push(cellIndex);
+                from.push(cell);
+                to.push(cellData);
+            }
+        }
+
+        this.history.swapCells(indices, from, to);
+
+        this.render();
+
+        return true;
+    }
+
+    /**
+     * Rotates or flips the selected cells as one undo step, keeping the top left corner of the selection where it is.
+     * Selected cells the transformed ones don't cover are emptied and the selection follows the cells.
+     * Returns false if the transformed cells don't fit in the grid or would change locked cells.
+     */
+    public transformSelection(transform: CellTransform) {
+        if (this.mode !== "edit") {
+            console.error("Tried to transform cells while not in edit mode");
+
+            return false;
+        }
+
+        const bounds = this.getSelectionCellBoundsAsCoordinates();
+
+        if (bounds[0] === null) {
+            console.error("Couldnt get bounds while trying to transform cells");
+
             return false;
         }
 
+        const [minX, maxX, minY, maxY] = bounds;
+        const { cells } = this.history.mapLayout;
         const selection = this.state.selectedCells;
 
-        const rows: (Cell | undefined)[][] = [];
+        const rows = range(minY, maxY + 1).map(y => range(minX, maxX + 1).map(x => {
+            const cellIndex = this.coordinatesToCellIndex(x, y);
 
-        const bounds = this.getSelectionCellBoundsAsCoordinates();
+            return selection.includes(cellIndex) ? cells[cellIndex] : undefined;
+        }));
+
+        const transformed = transformCells(rows, transform);
+        const width = transformed[0]?.length ?? 0;
+
+        if (!this.layout.isInBounds(minX + width - 1, minY + transformed.length - 1)) {
+            console.error("Tried to transform cells but they don't fit in the grid");
 
-        if (bounds[0] === null) {
-            console.error("Couldnt get bounds while trying to copy cells")
             return false;
         }
 
-        for (let y = bounds[2]; y <= bounds[3]; y++) {
-            const row: (Cell | undefined)[] = [];
+        const became: Record<number, Cell> = {};
+        const newSelection: number[] = [];
 
-            for (let x = bounds[0]; x <= bounds[1]; x++) {
-                const cellIndex = this.coordinatesToCellIndex(x, y);
+        for (const cellIndex of selection) {
+            became[cellIndex] = null;
+        }
 
-                if (selection.includes(cellIndex)) {
-                    row.push(this.history.mapLayout.cells[cellIndex]);
-                } else {
-                    row.push(undefined);
-                }
+        transformed.forEach((row, y) => row.forEach((cell, x) => {
+            if (cell !== undefined) {
+                const cellIndex = this.coordinatesToCellIndex(minX + x, minY + y);
+
+                became[cellIndex] = cell;
+                newSelection.push(cellIndex);
             }
+        }));
 
-            rows.push(row);
+        return this.replaceSelectedCells(became, newSelection);
+    }
+
+    // Swaps in the cells by index as one undo step and selects the given cells, unless locked cells would change
+    private replaceSelectedCells(became: Record<number, Cell>, newSelection: number[]) {
+        const { cells } = this.history.mapLayout;
+        const index = Object.keys(became).map(Number);
+        const lockedCells = this.editMenu?.lockedCells ?? [];
+
+        if (index.some(cellIndex => lockedCells.includes(cellIndex))) {
+            console.error("Tried to change locked cells");
+
+            return false;
         }
 
-        this.state.copying.cells = structuredClone(rows);
-        this.state.copying.bounds = bounds;
+        this.history.swapCells(index, index.map(cellIndex => cells[cellIndex] ?? null), index.map(cellIndex => became[cellIndex] as Cell));
+
+        this.state.selectedCells = newSelection;
+
+        this.editMenu?.selectCells(newSelection);
+
+        this.emitSelectionChange();
+
+        this.render(true);
 
         return true;
     }
 
-    cutCellsBySelection() {
-        const copy = this.copyCellsBySelection();
+    // Where the selected cells end up when moved, null if any of them would leave the grid or a locked cell would change
+    private getMovedSelection(x: number, y: number): Record<number, number> | null {
+        const lockedCells = this.editMenu?.lockedCells ?? [];
+        const moved: Record<number, number> = {};
+
+        for (const cellIndex of this.state.selectedCells) {
+            const [cellX, cellY] = this.getCoordinatesOfCell(cellIndex);
+
+            if (cellX === null || !this.layout.isInBounds(cellX + x, cellY + y)) {
+                return null;
+            }
+
+            const target = this.coordinatesToCellIndex(cellX + x, cellY + y);
+
+            if (lockedCells.includes(cellIndex) || lockedCells.includes(target)) {
+                return null;
+            }
+
+            moved[cellIndex] = target;
+        }
+
+        return moved;
+    }
+
+    /**
+     * Moves the selected cells by a number of columns and rows as one undo step, the cells they leave are emptied
+     * and the selection follows the cells. Returns false if a cell would leave the grid or a locked cell would change.
+     * Dragging a selected cell, or alt and the arrow keys, does the same in the editor.
+     */
+    public moveSelection(x: number, y: number) {
+        if (this.mode !== "edit") {
+            console.error("Tried to move cells while not in edit mode");
 
-        if (!copy) {
             return false;
         }
 
-        const selection = this.state.selectedCells;
+        if ((x === 0 && y === 0) || this.state.selectedCells.length === 0) {
+            return false;
+        }
 
-        const selectionBounds = this.state.copying.bounds;
+        const moved = this.getMovedSelection(x, y);
 
-        if (selectionBounds[0] === null) {
-            console.error("Couldnt get bounds while trying to cut cells")
+        if (moved === null) {
+            console.error("Tried to move cells out of the grid or onto locked cells");
 
             return false;
         }
 
-        const indexes: number[] = [];
-        const from: Cell[] = [];
-        const to: Cell[] = [];
+        const { cells } = this.history.mapLayout;
+        const became: Record<number, Cell> = {};
 
-        for (let y = selectionBounds[2]; y <= selectionBounds[3]; y++) {
-            for (let x = selectionBounds[0]; x <= selectionBounds[1]; x++) {
-                const cellIndex = this.coordinatesToCellIndex(x, y);
+        for (const cellIndex of this.state.selectedCells) {
+            became[cellIndex] = null;
+        }
 
-                if (!selection.includes(cellIndex)) {
-                    continue;
-                }
+        for (const cellIndex of this.state.selectedCells) {
+            became[moved[cellIndex] as number] = cells[cellIndex] ?? null;
+        }
 
-                const cell = this.history.mapLayout.cells[cellIndex];
+        return this.replaceSelectedCells(became, Object.values(moved));
+    }
 
-                if (cell === undefined) {
-                    console.error("Cannot cut cell with undefined cell.");
-                    continue;
-                }
+    // Follows the pointer while the selection is dragged, it is shown where it would end up until the drag ends.
+    // Returns false if the drag didn't start on a selected cell
+    private continueMove(canvasX: number, canvasY: number) {
+        if (this.tool !== "select") {
+            return false;
+        }
 
-                indexes.push(cellIndex);
-                from.push(cell);
-                to.push(null);
+        if (this.state.move === null) {
+            const start = this.cellIndexAt(this.collisions.drag.start.x, this.collisions.drag.start.y);
+
+            if (!this.state.selectedCells.includes(start)) {
+                return false;
             }
+
+            this.state.move = { start, x: 0, y: 0 };
         }
 
-        this.history.swapCells(indexes, from, to);
+        const [startX, startY] = this.getCoordinatesOfCell(this.state.move.start);
+        const [x, y] = this.getCoordinatesOfCell(this.cellIndexAt(canvasX, canvasY));
+
+        if (startX !== null && x !== null) {
+            this.state.move.x = x - startX;
+            this.state.move.y = y - startY;
+        }
+
+        this.setCursor("grabbing");
 
         this.render();
 
         return true;
     }
 
-    pasteCells() {
+    private finishMove() {
+        const move = this.state.move;
+
+        this.state.move = null;
+
+        if (move === null || !this.moveSelection(move.x, move.y)) {
+            this.render(true);
+        }
+    }
+
+    /**
+     * Rotates or flips the copied cells, they are pasted as they are transformed. Returns false if nothing is copied.
+     */
+    public transformClipboard(transform: CellTransform) {
         if (this.mode !== "edit") {
-            console.error("Tried to paste cells while not in edit mode");
+            console.error("Tried to transform copied cells while not in edit mode");
+
             return false;
         }
 
-        const firstCellIndex = this.getFirstCellIndexOfSelection();
+        const bounds = this.state.copying.bounds;
 
-        if (firstCellIndex === null) {
-            console.error("Tried to paste cells but first cell index was null");
+        if (bounds[0] === null) {
+            console.error("Tried to transform copied cells but nothing is copied");
 
             return false;
         }
 
-        const startingPoint = this.getCoordinatesOfCell(firstCellIndex);
+        const transformed = transformCells(this.state.copying.cells, transform);
+        const width = transformed[0]?.length ?? 0;
 
-        if (startingPoint[0] === null) {
-            console.error("Tried to paste cells but starting point was null");
+        this.state.copying.cells = transformed;
+        this.state.copying.bounds = [bounds[0], bounds[0] + width - 1, bounds[2], bounds[2] + transformed.length - 1];
 
-            return false;
+        return true;
+    }
+
+    private handleClipboardCopy(event: ClipboardEvent, cut: boolean) {
+        if (this.mode !== "edit" || this.state.selectedCells.length === 0 || event.clipboardData === null) {
+            return;
         }
 
-        const rows = this.state.copying.cells;
-        const bounds = this.state.copying.bounds;
+        if (!(cut ? this.cutCellsBySelection() : this.copyCellsBySelection())) {
+            return;
+        }
 
-        if (bounds[0] === null) {
-            console.error("Tried to paste cells but bounds were null");
+        const text = serializeCopiedCells(this.state.copying.cells);
+
+        event.preventDefault();
+        event.clipboardData.setData(CLIPBOARD_MIME_TYPE, text);
+        event.clipboardData.setData("text/plain", text);
+
+        this.state.copying.text = text;
+    }
+
+    /**
+     * Pastes text from the system clipboard at the first selected cell. The text is either cells copied from a map,
+     * or tab separated rows of names, e.g. from a spreadsheet, that are given to the seats they cover, see pasteNames.
+     * Cells last copied from this map are pasted as they are in its clipboard, rotated or flipped if they were.
+     * Returns false if nothing was pasted.
+     */
+    public pasteText(text: string) {
+        if (this.mode !== "edit") {
+            console.error("Tried to paste while not in edit mode");
 
             return false;
         }
 
-        const endX = startingPoint[0] + bounds[1] - bounds[0] + 1;
-        const endY = startingPoint[1] + bounds[3] - bounds[2] + 1;
+        if (text !== this.state.copying.text) {
+            const rows = parseCopiedCells(text, this.history.mapLayout.x, this.history.mapLayout.y);
 
-        const indices: number[] = [];
-        const from: Cell[] = [];
-        const to: Cell[] = [];
+            if (rows === null) {
+                const names = parseNameGrid(text);
 
-        for (let y = startingPoint[1]; y < endY; y++) {
-            const row = rows[y - startingPoint[1]];
+                if (names === null) {
+                    console.error("Tried to paste text that is neither copied cells nor tab or line separated names");
 
-            if (row === undefined) {
-                console.error("Cannot paste cells because row is undefined.");
+                    return false;
+                }
 
-                return;
+                return this.pasteNames(names) > 0;
             }
 
-            for (let x = startingPoint[0]; x < endX; x++) {
-                const cellData = row[x - startingPoint[0]];
-                const cellIndex = this.coordinatesToCellIndex(x, y);
+            this.state.copying.cells = rows;
+            this.state.copying.bounds = [0, (rows[0]?.length ?? 0) - 1, 0, rows.length - 1];
+            this.state.copying.text = text;
+        }
 
-                if (cellData === undefined) {
-                    continue;
-                }
+        return this.pasteCells() === true;
+    }
 
-                const cell = this.history.mapLayout.cells[cellIndex];
+    /**
+     * Names the seats covered by rows of names, starting at the first selected cell, as one undo step.
+     * The names must fit in the selection, or in the grid when a single cell is selected, otherwise nothing is named.
+     * Names that fall on other cells or are empty are skipped, locked seats keep their names.
+     * Returns the amount of seats that were renamed.
+     */
+    public pasteNames(names: string[][]) {
+        if (this.mode !== "edit") {
+            console.error("Tried to paste names while not in edit mode");
 
-                if (cell === undefined) {
-                    console.error("Cannot paste cell with undefined cell.");
+            return 0;
+        }
 
-                    continue;
-                }
+        const firstCellIndex = this.getFirstCellIndexOfSelection();
+        const [startX, startY] = firstCellIndex === null ? [null, null] : this.getCoordinatesOfCell(firstCellIndex);
 
-                indices.push(cellIndex);
-                from.push(cell);
-                to.push(cellData);
-            }
+        if (startX === null) {
+            console.error("Tried to paste names without a selection");
+
+            return 0;
         }
 
-        this.history.swapCells(indices, from, to);
+        const [, maxX, , maxY] = this.state.selectedCells.length > 1
+            ? this.layout.getSelectionCellBoundsAsCoordinates(this.state.selectedCells) as [number, number, number, number]
+            : [startX, this.history.mapLayout.x - 1, startY, this.history.mapLayout.y - 1];
 
-        this.render();
+        if (startX + Math.max(...names.map(row => row.length)) - 1 > maxX || startY + names.length - 1 > maxY) {
+            console.error("Tried to paste names that don't fit in the selection");
 
-        return true;
+            return 0;
+        }
+
+        const { cells } = this.history.mapLayout;
+        const lockedCells = this.editMenu?.lockedCells ?? [];
+
+        const index: number[] = [];
+        const was: (string | undefined)[] = [];
+        const became: string[] = [];
+
+        names.forEach((row, y) => row.forEach((name, x) => {
+            if (name === "") {
+                return;
+            }
+
+            const cellIndex = this.coordinatesToCellIndex(startX + x, startY + y);
+            const cell = cells[cellIndex];
+
+            if (cell?.type === "seat" && cell.name !== name && !lockedCells.includes(cellIndex)) {
+                index.push(cellIndex);
+                was.push(cell.name);
+                became.push(name);
+            }
+        }));
+
+        if (index.length > 0) {
+            this.history.changeAttributes(index, "name", was, became);
+
+            this.editMenu?.selectCells(this.state.selectedCells);
+        }
+
+        this.render(true);
+
+        return index.length;
     }
 
     public zoomToLevel(level: number, mouseX?: number, mouseY?: number) {
@@ -820,199 +2111,235 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
     }
 
     getCoordinatesOfCell(cellIndex: number): [number, number] | [null, null] {
-        const cellRows = [...chunks(this.history.mapLayout.cells, this.history.mapLayout.x)];
-        let rowPos = 0;
+        return this.layout.getCoordinatesOfCell(cellIndex);
+    }
 
-        for (const row of cellRows) {
-            for (let pos = 0; pos < row.length; pos++) {
-                if (cellIndex === rowPos * this.history.mapLayout.x + pos) {
-                    return [pos, rowPos];
-                }
-            }
+    coordinatesToCellIndex(x: number, y: number): number {
+        return this.layout.coordinatesToCellIndex(x, y);
+    }
 
-            rowPos++;
-        }
+    getSelectionCellBoundsAsCoordinates(): [number, number, number, number] | [null, null, null, null] {
+        return this.layout.getSelectionCellBoundsAsCoordinates(this.state.selectedCells);
+    }
 
-        return [null, null];
+    getCellBounds(): [number, number, number, number] {
+        return this.layout.getCellBounds();
     }
 
-    coordinatesToCellIndex(x: number, y: number): number {
-        return y * this.history.mapLayout.x + x;
+    public centerCamera() {
+        this.keepCameraConstraintsAndRender();
+
+        let [minX, maxX, minY, maxY] = this.getCellBounds();
+
+        this.camera.x = ((maxX + minX) / 3);
+        this.camera.y = ((maxY + minY) / 2) - this.mapHeight / 2;
+
+        this.keepCameraConstraintsAndRender(true);
     }
 
-    getSelectionCellBoundsAsCoordinates(): [number, number, number, number] | [null, null, null, null] {
-        const cellRows = [...chunks(this.history.mapLayout.cells, this.history.mapLayout.x)];
-        const selection = this.state.selectedCells;
+    cameraPositionToCanvas(zoomLevel: number) {
+        return [this.camera.x * zoomLevel, this.camera.y * zoomLevel];
+    }
 
-        if (selection.length === 0) {
-            return [null, null, null, null];
+    canvasPositionToCamera(x: number, y: number, zoomLevel: number) {
+        return [x / zoomLevel, y / zoomLevel];
+    }
+
+    keepCameraConstraintsAndRender(force = false) {
+        let [minX, maxX, minY, maxY] = this.getCellBounds();
+
+        if (this.mode === "edit" || this.mode === "preview") {
+            minX = -this.mapWidth / 2;
+            maxX = this.mapWidth * 1.5;
+            minY = -this.mapHeight / 2;
+            maxY = this.mapHeight * 1.5;
+        } else {
+            minX -= (maxX - minX) / 4;
+            maxX += (maxX - minX) / 4;
+            minY -= (maxY - minY) / 4;
+            maxY += (maxY - minY) / 4;
+        }
+
+        if (this.camera.x < minX) {
+            this.camera.x = minX;
+        } else if (this.camera.x > maxX - (this.canvas.width / this.camera.zoom)) {
+            this.camera.x = maxX - (this.canvas.width / this.camera.zoom);
+        }
+
+        if (this.camera.y < minY) {
+            this.camera.y = minY;
+        } else if (this.camera.y > maxY - (this.canvas.height / this.camera.zoom)) {
+            this.camera.y = maxY - (this.canvas.height / this.camera.zoom);
+        }
+
+        if (this.camera.zoom < this.minZoom) {
+            this.camera.zoom = this.minZoom;
+        } if (this.camera.zoom > MAX_ZOOM) {
+            this.camera.zoom = MAX_ZOOM;
         }
 
-        let minX = this.history.mapLayout.x;
-        let maxX = 0;
-        let minY = this.history.mapLayout.y;
-        let maxY = 0;
+        this.render(force);
+    }
 
-        let rowPos = 0;
+    render(force = false) {
+        if (!this.ctx) return;
 
-        for (const row of cellRows) {
-            let pos = -1;
+        if (!force && this.lastFrameTimestamp + 1000 / 60 > performance.now()) {
+            return;
+        }
 
-            for (const cell of row) {
-                pos++;
+        const { layers, collisions } = this.buildRenderInstructions({
+            zoom: this.camera.zoom,
+            cameraX: this.camera.x,
+            cameraY: this.camera.y,
+            width: this.canvas.width,
+            height: this.canvas.height,
+            interactive: true
+        });
 
-                if (!selection.includes(this.coordinatesToCellIndex(pos, rowPos))) {
-                    continue;
-                }
+        if (force || JSON.stringify(this.lastFrame) !== JSON.stringify(layers)) {
+            this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
 
-                if (pos < minX) {
-                    minX = pos;
-                }
+            this.drawInstructions(this.ctx, layers, this.camera.zoom, this.canvas.width, this.canvas.height);
 
-                if (pos > maxX) {
-                    maxX = pos;
-                }
+            this.lastFrame = layers;
+        }
 
-                if (rowPos < minY) {
-                    minY = rowPos;
-                }
-                if (rowPos > maxY) {
-                    maxY = rowPos;
-                }
-            }
 
-            rowPos++;
+        if (this.mode !== "no-interact") {
+            this.collisions.registerCollisions(collisions);
         }
 
-        return [minX, maxX, minY, maxY];
-    }
+        if (this.mode === "edit" || this.mode === "preview") {
+            this.ctx.font = `${16}px Arial`;
+            this.ctx.fillStyle = "#0F0";
+            this.ctx.fillText(this.fpsCounter.frameCount.toString(), 10, 20);
 
-    getCellBounds(): [number, number, number, number] {
-        const cellRows = [...chunks(this.history.mapLayout.cells, this.history.mapLayout.x)];
+            this.fpsCounter.tick();
+        }
+
+        this.lastFrameTimestamp = performance.now()
+    }
 
-        let minX = this.history.mapLayout.x;
-        let maxX = 0;
-        let minY = this.history.mapLayout.y;
-        let maxY = 0;
+    /**
+     * Redraws only the part of the canvas covered by the given cells, everything else is left as drawn.
+     * Only the given cells and their neighbours are rebuilt, the neighbours cover borders and text reaching across.
+     */
+    private renderCells(cellIndexes: number[]) {
+        if (!this.ctx) return;
 
-        let rowPos = 0;
+        const { x: columnsAmount, y: rowsAmount } = this.history.mapLayout;
+        const zoom = this.camera.zoom;
+        const renderedCellSize = CELL_SIZE * zoom;
+        const builtCells = new Set<number>();
+        const regions: { x: number, y: number, width: number, height: number }[] = [];
 
-        for (const row of cellRows) {
-            let pos = 0;
+        for (const cellIndex of cellIndexes) {
+            const cellX = cellIndex % columnsAmount;
+            const cellY = Math.floor(cellIndex / columnsAmount);
 
-            for (const cell of row) {
-                if (cell === null) {
-                    pos++;
-                    continue;
-                }
+            if (cellIndex < 0 || cellY >= rowsAmount) {
+                continue;
+            }
 
-                if (pos < minX) {
-                    minX = pos;
-                }
-                if (pos > maxX) {
-                    maxX = pos;
+            for (let y = Math.max(0, cellY - 1); y <= Math.min(rowsAmount - 1, cellY + 1); y++) {
+                for (let x = Math.max(0, cellX - 1); x <= Math.min(columnsAmount - 1, cellX + 1); x++) {
+                    builtCells.add(y * columnsAmount + x);
                 }
+            }
 
-                if (rowPos < minY) {
-                    minY = rowPos;
-                }
-                if (rowPos > maxY) {
-                    maxY = rowPos;
-                }
+            // Half a cell of margin covers borders and text reaching into the neighbouring cells
+            const x = Math.max(0, Math.floor((cellX - 0.5) * renderedCellSize - this.camera.x * zoom));
+            const y = Math.max(0, Math.floor((cellY - 0.5) * renderedCellSize - this.camera.y * zoom));
+            const width = Math.min(this.canvas.width, Math.ceil((cellX + 1.5) * renderedCellSize - this.camera.x * zoom)) - x;
+            const height = Math.min(this.canvas.height, Math.ceil((cellY + 1.5) * renderedCellSize - this.camera.y * zoom)) - y;
 
-                pos++;
+            if (width > 0 && height > 0) {
+                regions.push({ x, y, width, height });
             }
-
-            rowPos++;
         }
 
-        return [minX * CELL_SIZE, (maxX * CELL_SIZE + CELL_SIZE), minY * CELL_SIZE, ((maxY * CELL_SIZE) + CELL_SIZE)];
-    }
-
-    public centerCamera() {
-        this.keepCameraConstraintsAndRender();
-
-        let [minX, maxX, minY, maxY] = this.getCellBounds();
+        if (builtCells.size === 0) {
+            return;
+        }
 
-        this.camera.x = ((maxX + minX) / 3);
-        this.camera.y = ((maxY + minY) / 2) - this.mapHeight / 2;
+        const { layers, collisions } = this.buildRenderInstructions({
+            zoom,
+            cameraX: this.camera.x,
+            cameraY: this.camera.y,
+            width: this.canvas.width,
+            height: this.canvas.height,
+            interactive: true,
+            cells: [...builtCells]
+        });
 
-        this.keepCameraConstraintsAndRender(true);
-    }
+        if (this.mode !== "no-interact") {
+            this.collisions.registerCollisions([
+                ...this.collisions.collisions.filter(collision => !builtCells.has(collision.reference)),
+                ...collisions
+            ]);
+        }
 
-    cameraPositionToCanvas(zoomLevel: number) {
-        return [this.camera.x * zoomLevel, this.camera.y * zoomLevel];
-    }
+        // The canvas no longer matches the last full frame, so the next render draws everything again
+        this.lastFrame = [];
 
-    canvasPositionToCamera(x: number, y: number, zoomLevel: number) {
-        return [x / zoomLevel, y / zoomLevel];
-    }
+        if (regions.length === 0) {
+            return;
+        }
 
-    keepCameraConstraintsAndRender(force = false) {
-        let [minX, maxX, minY, maxY] = this.getCellBounds();
+        this.ctx.save();
+        this.ctx.beginPath();
 
-        if (this.mode === "edit" || this.mode === "preview") {
-            minX = -this.mapWidth / 2;
-            maxX = this.mapWidth * 1.5;
-            minY = -this.mapHeight / 2;
-            maxY = this.mapHeight * 1.5;
-        } else {
-            minX -= (maxX - minX) / 4;
-            maxX += (maxX - minX) / 4;
-            minY -= (maxY - minY) / 4;
-            maxY += (maxY - minY) / 4;
+        for (const { x, y, width, height } of regions) {
+            this.ctx.rect(x, y, width, height);
         }
 
-        if (this.camera.x < minX) {
-            this.camera.x = minX;
-        } else if (this.camera.x > maxX - (this.canvas.width / this.camera.zoom)) {
-            this.camera.x = maxX - (this.canvas.width / this.camera.zoom);
-        }
+        this.ctx.clip();
 
-        if (this.camera.y < minY) {
-            this.camera.y = minY;
-        } else if (this.camera.y > maxY - (this.canvas.height / this.camera.zoom)) {
-            this.camera.y = maxY - (this.canvas.height / this.camera.zoom);
+        for (const { x, y, width, height } of regions) {
+            this.ctx.clearRect(x, y, width, height);
         }
 
-        if (this.camera.zoom < this.minZoom) {
-            this.camera.zoom = this.minZoom;
-        } if (this.camera.zoom > MAX_ZOOM) {
-            this.camera.zoom = MAX_ZOOM;
-        }
+        this.drawInstructions(this.ctx, layers, zoom, this.canvas.width, this.canvas.height);
 
-        this.render(force);
+        this.ctx.restore();
     }
 
-    render(force = false) {
+    /**
+     * Builds the layered draw instructions for the layout as seen through the given camera.
+     * Non-interactive builds leave out the edit grid, hover, selection and seat states, which is what exports use.
+     */
+    buildRenderInstructions(options: MapRenderOptions): { layers: MapRenderLayers, collisions: Collision<number>[] } {
         const { mapLayout } = this.history;
         const collisions: Collision<number>[] = [];
-        const layers: [MapRenderInstruction[], MapRenderInstruction[], MapRenderInstruction[], MapRenderInstruction[]] = [
+        const layers: MapRenderLayers = [
             [], // Cell layer
             [], // Border layer
             [],  // Text layer
             [] // Overlay layer
         ];
 
-        if (!this.ctx) return;
+        const ctx = this.ctx;
+        const { zoom, interactive } = options;
+        const isEditing = interactive && this.mode === "edit";
 
-        if (!force && this.lastFrameTimestamp + 1000 / 60 > performance.now()) {
-            return;
+        if (!ctx) {
+            return { layers, collisions };
         }
 
-        const renderedCellSize = CELL_SIZE * this.camera.zoom;
+        const renderedCellSize = CELL_SIZE * zoom;
         const columnsAmount = mapLayout.x;
         const rowsAmount = mapLayout.y;
 
-        const zoomAdjustedCameraXPos = this.camera.x * this.camera.zoom;
-        const zoomAdjustedCameraYPos = this.camera.y * this.camera.zoom;
+        const zoomAdjustedCameraXPos = options.cameraX * zoom;
+        const zoomAdjustedCameraYPos = options.cameraY * zoom;
 
         const visibleWindowTolerance = {
-            x: this.canvas.width * this.camera.zoom + (renderedCellSize * 2),
-            y: this.canvas.height * this.camera.zoom + (renderedCellSize * 2)
+            x: options.width * zoom + (renderedCellSize * 2),
+            y: options.height * zoom + (renderedCellSize * 2)
         };
 
-        if (this.mode === "edit") {
+        if (isEditing) {
             if (this.state.multiSelect.selecting) {
                 const startX = this.state.multiSelect.start.x;
                 const startY = this.state.multiSelect.start.y;
@@ -1050,6 +2377,56 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     opacity: 0.8
                 });
             }
+
+            if (this.state.stroke !== null) {
+                const { backgroundColor } = this.getCellStyle({ type: this.getPaintType() }, false, false);
+
+                for (const cellIndex of this.state.stroke.cells) {
+                    const [x, y] = this.getCoordinatesOfCell(cellIndex);
+
+                    if (x === null) {
+                        continue;
+                    }
+
+                    layers[3].push({
+                        type: "fillrect",
+                        x: x * renderedCellSize - zoomAdjustedCameraXPos,
+                        y: y * renderedCellSize - zoomAdjustedCameraYPos,
+                        width: renderedCellSize,
+                        height: renderedCellSize,
+                        color: backgroundColor,
+                        opacity: 0.6
+                    });
+                }
+            }
+
+            if (this.state.move !== null) {
+                const { x: moveX, y: moveY } = this.state.move;
+                const blocked = this.getMovedSelection(moveX, moveY) === null;
+
+                for (const cellIndex of this.state.selectedCells) {
+                    const [x, y] = this.getCoordinatesOfCell(cellIndex);
+                    const cell = this.history.mapLayout.cells[cellIndex];
+
+                    if (x === null) {
+                        continue;
+                    }
+
+                    layers[3].push({
+                        type: "fillrect",
+                        x: (x + moveX) * renderedCellSize - zoomAdjustedCameraXPos,
+                        y: (y + moveY) * renderedCellSize - zoomAdjustedCameraYPos,
+                        width: renderedCellSize,
+                        height: renderedCellSize,
+                        // Shown in red where the selection can't be moved to
+                        color: blocked ? "#F00" : cell ? this.getCellStyle(cell, false, false).backgroundColor : "#000",
+                        opacity: 0.6
+                    });
+                }
+            }
+        }
+
+        if (isEditing || options.includeGrid) {
             layers[0].push({
                 type: "strokerect",
                 x: -(renderedCellSize) - zoomAdjustedCameraXPos,
@@ -1057,7 +2434,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                 width: (columnsAmount + 2) * renderedCellSize,
                 height: (rowsAmount + 2) * renderedCellSize,
                 color: "#0FF",
-                lineWidth: 0.5 * this.camera.zoom,
+                lineWidth: 0.5 * zoom,
                 opacity: 1
             })
 
@@ -1072,7 +2449,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     width: 1,
                     height: rowsAmount * renderedCellSize,
                     color: "#CCC",
-                    lineWidth: 1 * this.camera.zoom,
+                    lineWidth: 1 * zoom,
                     opacity: 0.4
                 })
             }
@@ -1088,22 +2465,25 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     width: columnsAmount * renderedCellSize,
                     height: 1,
                     color: "#CCC",
-                    lineWidth: 1 * this.camera.zoom,
+                    lineWidth: 1 * zoom,
                     opacity: 0.4
                 })
             }
         }
 
-        for (let y = 0; y < (rowsAmount); y++) {
-            this.ctx.globalAlpha = 1;
+        const builtCells = options.cells ? new Set(options.cells) : null;
 
+        for (let y = 0; y < (rowsAmount); y++) {
             for (let x = 0; x < columnsAmount; x++) {
-                this.ctx.globalAlpha = 1;
                 const cellIndex = y * columnsAmount + x;
                 const cell = mapLayout.cells[cellIndex];
 
+                if (builtCells && !builtCells.has(cellIndex)) {
+                    continue;
+                }
+
                 if (!cell) {
-                    if (this.mode === "edit") {
+                    if (isEditing) {
                         const xPos = x * renderedCellSize - zoomAdjustedCameraXPos;
                         const yPos = y * renderedCellSize - zoomAdjustedCameraYPos;
 
@@ -1139,18 +2519,18 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     continue;
                 };
 
-                const { backgroundColor, borderColor, borderWidth, text, opacity, textFont, textSize, textColor, textOpacity, textWeight, textTranslateX, textTranslateY, textStrokeColor, textStrokeLineWidth, textRotationDegrees, borderTop, borderBottom, borderLeft, borderRight } = this.getCellStyle(cell, this.state.hoveredCell === cellIndex, this.state.selectedCells.includes(cellIndex));
+                const { backgroundColor, borderColor, borderWidth, text, opacity, textFont, textSize, textColor, textOpacity, textWeight, textTranslateX, textTranslateY, textStrokeColor, textStrokeLineWidth, textRotationDegrees, borderTop, borderBottom, borderLeft, borderRight } = this.getCellStyle(cell, interactive && this.state.hoveredCell === cellIndex, interactive && this.state.selectedCells.includes(cellIndex), interactive && cell.type === "seat" ? this.getSeatState(cellIndex) : "available");
 
                 const xPos = x * renderedCellSize - zoomAdjustedCameraXPos;
                 const yPos = y * renderedCellSize - zoomAdjustedCameraYPos;
 
                 // Check if the cell is within the visible window adjusted for zoom
-                if (xPos + renderedCellSize < -visibleWindowTolerance.x || xPos > this.canvas.width + visibleWindowTolerance.x ||
-                    yPos + renderedCellSize < -visibleWindowTolerance.y || yPos > this.canvas.height + visibleWindowTolerance.y) {
+                if (xPos + renderedCellSize < -visibleWindowTolerance.x || xPos > options.width + visibleWindowTolerance.x ||
+                    yPos + renderedCellSize < -visibleWindowTolerance.y || yPos > options.height + visibleWindowTolerance.y) {
                     continue;
                 }
 
-                if (this.mode !== "view" || (this.mode === "view" && cell.type === "seat")) {
+                if (this.mode !== "view" || (this.mode === "view" && cell.type === "seat" && this.isSeatSelectable(cellIndex))) {
                     collisions.push({
                         x: xPos,
                         y: yPos,
@@ -1171,7 +2551,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                             width: renderedCellSize,
                             height: renderedCellSize,
                             color: borderColor,
-                            lineWidth: borderWidth * this.camera.zoom,
+                            lineWidth: borderWidth * zoom,
                             opacity: opacity
                         })
                     } else {
@@ -1184,7 +2564,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos,
                                 color: borderColor,
-                                lineWidth: borderWidth * this.camera.zoom,
+                                lineWidth: borderWidth * zoom,
                                 opacity: opacity
                             });
                         } else {
@@ -1196,7 +2576,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos,
                                 color: backgroundColor,
-                                lineWidth: 1 * this.camera.zoom,
+                                lineWidth: 1 * zoom,
                                 opacity: opacity
                             })
                         }
@@ -1208,7 +2588,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos + renderedCellSize,
                                 color: borderColor,
-                                lineWidth: borderWidth * this.camera.zoom,
+                                lineWidth: borderWidth * zoom,
                                 opacity: opacity
                             });
                         } else {
@@ -1220,7 +2600,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos + renderedCellSize,
                                 color: backgroundColor,
-                                lineWidth: 1 * this.camera.zoom,
+                                lineWidth: 1 * zoom,
                                 opacity: opacity
                             })
                         }
@@ -1232,7 +2612,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos,
                                 yTo: yPos + renderedCellSize,
                                 color: borderColor,
-                                lineWidth: borderWidth * this.camera.zoom,
+                                lineWidth: borderWidth * zoom,
                                 opacity: opacity
                             });
                         } else {
@@ -1244,7 +2624,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos,
                                 yTo: yPos + renderedCellSize,
                                 color: backgroundColor,
-                                lineWidth: 1 * this.camera.zoom,
+                                lineWidth: 1 * zoom,
                                 opacity: opacity
                             })
                         }
@@ -1256,7 +2636,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos + renderedCellSize,
                                 color: borderColor,
-                                lineWidth: borderWidth * this.camera.zoom,
+                                lineWidth: borderWidth * zoom,
                                 opacity: opacity
                             });
                         } else {
@@ -1268,7 +2648,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                                 xTo: xPos + renderedCellSize,
                                 yTo: yPos + renderedCellSize,
                                 color: backgroundColor,
-                                lineWidth: 1 * this.camera.zoom,
+                                lineWidth: 1 * zoom,
                                 opacity: opacity
                             })
                         }
@@ -1282,7 +2662,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                         width: renderedCellSize,
                         height: renderedCellSize,
                         color: backgroundColor,
-                        lineWidth: 1 * this.camera.zoom,
+                        lineWidth: 1 * zoom,
                         opacity: opacity
                     })
                 }
@@ -1297,7 +2677,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     opacity: opacity
                 })
 
-                if (this.mode === "edit" && this.state.selectedCells.includes(cellIndex)) {
+                if (isEditing && this.state.selectedCells.includes(cellIndex)) {
                     layers[3].push({
                         type: "fillrect",
                         x: xPos,
@@ -1310,8 +2690,8 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                 }
 
                 if (text) {
-                    this.ctx.font = `${textWeight} ${textSize * this.camera.zoom}px ${textFont}`
-                    const textMeasurements = this.ctx.measureText(text);
+                    ctx.font = `${textWeight} ${textSize * zoom}px ${textFont}`
+                    const textMeasurements = ctx.measureText(text);
                     const textWidth = textMeasurements.actualBoundingBoxRight - textMeasurements.actualBoundingBoxLeft;
                     const textHeight = textMeasurements.actualBoundingBoxAscent + textMeasurements.actualBoundingBoxDescent;
                     const textXPos = xPos + (renderedCellSize / 2) - (textWidth / 2);
@@ -1319,10 +2699,10 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
 
                     layers[2].push({
                         type: "text",
-                        x: textXPos + (textTranslateX * this.camera.zoom),
-                        y: textYPos + (textTranslateY * this.camera.zoom),
+                        x: textXPos + (textTranslateX * zoom),
+                        y: textYPos + (textTranslateY * zoom),
                         text: text,
-                        font: this.ctx.font,
+                        font: ctx.font,
                         color: textColor,
                         opacity: textOpacity,
                         dimensions: [textWidth, textHeight],
@@ -1332,14 +2712,14 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
                     if (textStrokeColor && textStrokeLineWidth) {
                         layers[2].push({
                             type: "textstroke",
-                            x: textXPos + (textTranslateX * this.camera.zoom),
-                            y: textYPos + (textTranslateY * this.camera.zoom),
+                            x: textXPos + (textTranslateX * zoom),
+                            y: textYPos + (textTranslateY * zoom),
                             text: text,
-                            font: this.ctx.font,
+                            font: ctx.font,
                             color: textStrokeColor,
                             opacity: textOpacity,
                             dimensions: [textWidth, textHeight],
-                            lineWidth: textStrokeLineWidth * this.camera.zoom,
+                            lineWidth: textStrokeLineWidth * zoom,
                             rotationDegrees: textRotationDegrees
                         });
                     }
@@ -1347,6 +2727,131 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             }
         }
 
+        if (interactive) {
+            const pushPreviewLabel = (xPos: number, yPos: number, label: string) => {
+                ctx.font = `bold ${8 * zoom}px Arial`;
+                const textMeasurements = ctx.measureText(label);
+                const textHeight = textMeasurements.actualBoundingBoxAscent + textMeasurements.actualBoundingBoxDescent;
+
+                layers[3].push({
+                    type: "text",
+                    x: xPos + (renderedCellSize / 2) - (textMeasurements.width / 2),
+                    y: yPos + (renderedCellSize / 2) + (textHeight / 2),
+                    text: label,
+                    font: ctx.font,
+                    color: SEAT_LABEL_PREVIEW_COLOR,
+                    opacity: 1,
+                    dimensions: [textMeasurements.width, textHeight],
+                    rotationDegrees: 0
+                });
+            };
+
+            for (const key in this.state.labelPreview) {
+                const [x, y] = this.getCoordinatesOfCell(Number(key));
+
+                if (x === null) {
+                    continue;
+                }
+
+                const xPos = x * renderedCellSize - zoomAdjustedCameraXPos;
+                const yPos = y * renderedCellSize - zoomAdjustedCameraYPos;
+
+                // Covers the current name so only the previewed one is read
+                layers[3].push({
+                    type: "fillrect",
+                    x: xPos,
+                    y: yPos,
+                    width: renderedCellSize,
+                    height: renderedCellSize,
+                    color: "#000",
+                    opacity: 0.7
+                });
+
+                pushPreviewLabel(xPos, yPos, this.state.labelPreview[key] as string);
+            }
+
+            const blockPreview = this.state.blockPreview;
+
+            blockPreview?.index.forEach((cellIndex, i) => {
+                const [x, y] = this.getCoordinatesOfCell(cellIndex);
+                const cell = blockPreview.cells[i] as PureCell;
+
+                if (x === null) {
+                    return;
+                }
+
+                const xPos = x * renderedCellSize - zoomAdjustedCameraXPos;
+                const yPos = y * renderedCellSize - zoomAdjustedCameraYPos;
+
+                layers[3].push({
+                    type: "fillrect",
+                    x: xPos,
+                    y: yPos,
+                    width: renderedCellSize,
+                    height: renderedCellSize,
+                    color: this.getCellStyle(cell, false, false).backgroundColor,
+                    opacity: 0.8
+                });
+
+                if (cell.name !== undefined) {
+                    pushPreviewLabel(xPos, yPos, cell.name);
+                }
+            });
+
+            for (const presence of this.state.remotePresences) {
+                for (const cellIndex of presence.selection) {
+                    const [x, y] = this.getCoordinatesOfCell(cellIndex);
+
+                    if (x === null) {
+                        continue;
+                    }
+
+                    layers[3].push({
+                        type: "strokerect",
+                        x: x * renderedCellSize - zoomAdjustedCameraXPos,
+                        y: y * renderedCellSize - zoomAdjustedCameraYPos,
+                        width: renderedCellSize,
+                        height: renderedCellSize,
+                        color: presence.color,
+                        lineWidth: 2 * zoom,
+                        opacity: 1
+                    });
+                }
+
+                if (presence.cursor === null) {
+                    continue;
+                }
+
+                const cursorX = presence.cursor[0] * zoom - zoomAdjustedCameraXPos;
+                const cursorY = presence.cursor[1] * zoom - zoomAdjustedCameraYPos;
+
+                layers[3].push({
+                    type: "fillrect",
+                    x: cursorX - 3,
+                    y: cursorY - 3,
+                    width: 6,
+                    height: 6,
+                    color: presence.color,
+                    opacity: 1
+                });
+
+                ctx.font = "12px Arial";
+                const textMeasurements = ctx.measureText(presence.name);
+
+                layers[3].push({
+                    type: "text",
+                    x: cursorX + 6,
+                    y: cursorY + 16,
+                    text: presence.name,
+                    font: ctx.font,
+                    color: presence.color,
+                    opacity: 1,
+                    dimensions: [textMeasurements.width, textMeasurements.actualBoundingBoxAscent + textMeasurements.actualBoundingBoxDescent],
+                    rotationDegrees: 0
+                });
+            }
+        }
+
         // // 1D merging of lines and rectangles
         // let layerIndex = -1;
         // for (let layer of layers) {
@@ -1413,104 +2918,90 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         //         }
         //     }
         // }
-        if (force || JSON.stringify(this.lastFrame) !== JSON.stringify(layers)) {
-            this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-
-            for (let layer of layers) {
-                for (let instruction of layer) {
-                    this.ctx.globalAlpha = instruction.opacity;
-
-                    if (instruction.type === "fillrect") {
-                        if (instruction.x + instruction.width < 0 || instruction.x > this.canvas.width ||
-                            instruction.y + instruction.height < 0 || instruction.y > this.canvas.height) {
-                            continue; // Skip rendering if out of bounds
-                        }
+        return { layers, collisions };
+    }
 
-                        this.ctx.fillStyle = instruction.color;
-                        this.ctx.fillRect(instruction.x, instruction.y, instruction.width, instruction.height);
+    /**
+     * Draws instructions made by buildRenderInstructions. Instructions outside of width x height are skipped.
+     */
+    drawInstructions(ctx: CanvasRenderingContext2D, layers: MapRenderInstruction[][], zoom: number, width: number, height: number) {
+        for (let layer of layers) {
+            for (let instruction of layer) {
+                ctx.globalAlpha = instruction.opacity;
+
+                if (instruction.type === "fillrect") {
+                    if (instruction.x + instruction.width < 0 || instruction.x > width ||
+                        instruction.y + instruction.height < 0 || instruction.y > height) {
+                        continue; // Skip rendering if out of bounds
                     }
 
-                    if (instruction.type === "strokerect") {
-                        if (instruction.x + instruction.width + (instruction.lineWidth / 2) < 0 || instruction.x > this.canvas.width ||
-                            instruction.y + instruction.height + (instruction.lineWidth / 2) < 0 || instruction.y > this.canvas.height) {
-                            continue; // Skip rendering if out of bounds
-                        }
-
-                        this.ctx.strokeStyle = instruction.color;
-                        this.ctx.lineWidth = instruction.lineWidth;
-                        this.ctx.strokeRect(instruction.x, instruction.y, instruction.width, instruction.height);
-                    }
+                    ctx.fillStyle = instruction.color;
+                    ctx.fillRect(instruction.x, instruction.y, instruction.width, instruction.height);
+                }
 
-                    if ((instruction.type === "text" || instruction.type === "textstroke") && instruction.rotationDegrees !== 0) {
-                        this.ctx.translate(instruction.x + (instruction.dimensions[0] / 2), instruction.y + (instruction.dimensions[1] / 2));
-                        this.ctx.rotate((instruction.rotationDegrees * Math.PI) / 180);
-                        this.ctx.translate(-(instruction.x + (instruction.dimensions[0] / 2)), -(instruction.y + (instruction.dimensions[1] / 2)));
+                if (instruction.type === "strokerect") {
+                    if (instruction.x + instruction.width + (instruction.lineWidth / 2) < 0 || instruction.x > width ||
+                        instruction.y + instruction.height + (instruction.lineWidth / 2) < 0 || instruction.y > height) {
+                        continue; // Skip rendering if out of bounds
                     }
 
-                    if (instruction.type === "text") {
-                        this.ctx.font = instruction.font;
-                        this.ctx.fillStyle = instruction.color;
-                        this.ctx.fillText(instruction.text, instruction.x, instruction.y);
-                    }
+                    ctx.strokeStyle = instruction.color;
+                    ctx.lineWidth = instruction.lineWidth;
+                    ctx.strokeRect(instruction.x, instruction.y, instruction.width, instruction.height);
+                }
 
-                    if (instruction.type === "textstroke") {
-                        this.ctx.font = instruction.font;
-                        this.ctx.strokeStyle = instruction.color;
-                        this.ctx.lineWidth = instruction.lineWidth;
-                        this.ctx.strokeText(instruction.text, instruction.x, instruction.y);
-                    }
+                if ((instruction.type === "text" || instruction.type === "textstroke") && instruction.rotationDegrees !== 0) {
+                    ctx.translate(instruction.x + (instruction.dimensions[0] / 2), instruction.y + (instruction.dimensions[1] / 2));
+                    ctx.rotate((instruction.rotationDegrees * Math.PI) / 180);
+                    ctx.translate(-(instruction.x + (instruction.dimensions[0] / 2)), -(instruction.y + (instruction.dimensions[1] / 2)));
+                }
 
-                    if ((instruction.type === "text" || instruction.type === "textstroke") && instruction.rotationDegrees !== 0) {
-                        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
-                    }
+                if (instruction.type === "text") {
+                    ctx.font = instruction.font;
+                    ctx.fillStyle = instruction.color;
+                    ctx.fillText(instruction.text, instruction.x, instruction.y);
+                }
 
-                    if (instruction.type === "path") {
-                        this.ctx.fillStyle = instruction.color;
-                        this.ctx.beginPath();
-                        const matrix = new DOMMatrix();
+                if (instruction.type === "textstroke") {
+                    ctx.font = instruction.font;
+                    ctx.strokeStyle = instruction.color;
+                    ctx.lineWidth = instruction.lineWidth;
+                    ctx.strokeText(instruction.text, instruction.x, instruction.y);
+                }
 
-                        // Scale so that the path stays the same relative to the renderedcellsize
-                        matrix.scaleSelf(this.camera.zoom, this.camera.zoom);
-                        matrix.scaleSelf(0.12, 0.12);
+                if ((instruction.type === "text" || instruction.type === "textstroke") && instruction.rotationDegrees !== 0) {
+                    ctx.setTransform(1, 0, 0, 1, 0, 0);
+                }
 
+                if (instruction.type === "path") {
+                    ctx.fillStyle = instruction.color;
+                    ctx.beginPath();
+                    const matrix = new DOMMatrix();
 
-                        const path = new Path2D();
-                        path.addPath(new Path2D(instruction.path), matrix);
+                    // Scale so that the path stays the same relative to the renderedcellsize
+                    matrix.scaleSelf(zoom, zoom);
+                    matrix.scaleSelf(0.12, 0.12);
 
-                        this.ctx.translate(instruction.x, instruction.y);
-                        this.ctx.fill(path);
-                        this.ctx.translate(-instruction.x, -instruction.y);
-                    }
 
-                    if (instruction.type === "line") {
-                        this.ctx.strokeStyle = instruction.color;
-                        this.ctx.lineWidth = instruction.lineWidth;
+                    const path = new Path2D();
+                    path.addPath(new Path2D(instruction.path), matrix);
 
-                        this.ctx.beginPath();
-                        this.ctx.moveTo(instruction.x, instruction.y);
-                        this.ctx.lineTo(instruction.xTo, instruction.yTo);
-                        this.ctx.stroke();
-                    }
+                    ctx.translate(instruction.x, instruction.y);
+                    ctx.fill(path);
+                    ctx.translate(-instruction.x, -instruction.y);
                 }
-            }
-
-            this.lastFrame = layers;
-        }
-
-
-        if (this.mode !== "no-interact") {
-            this.collisions.registerCollisions(collisions);
-        }
 
-        if (this.mode === "edit" || this.mode === "preview") {
-            this.ctx.font = `${16}px Arial`;
-            this.ctx.fillStyle = "#0F0";
-            this.ctx.fillText(this.fpsCounter.frameCount.toString(), 10, 20);
+                if (instruction.type === "line") {
+                    ctx.strokeStyle = instruction.color;
+                    ctx.lineWidth = instruction.lineWidth;
 
-            this.fpsCounter.tick();
+                    ctx.beginPath();
+                    ctx.moveTo(instruction.x, instruction.y);
+                    ctx.lineTo(instruction.xTo, instruction.yTo);
+                    ctx.stroke();
+                }
+            }
         }
-
-        this.lastFrameTimestamp = performance.now()
     }
 
     getSpecifiedCellStyle(cellIndex: number): CellStyleOverride {
@@ -1519,7 +3010,7 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         return cell?.styleOverride || {};
     }
 
-    getCellStyle(cell: Cell, hoverState: boolean, selectedState: boolean): {
+    getCellStyle(cell: Cell, hoverState: boolean, selectedState: boolean, seatState: SeatState = "available"): {
         backgroundColor: string,
         borderColor: string,
         borderWidth: number,
@@ -1586,6 +3077,8 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             textRotationDegrees: number
         }
 
+        const globalStyleOverride = this.history.mapLayout.globalOverride.cellStyleOverride[cell.type];
+
         if (cell.type === "seat" && cell.name) {
             style.text = cell.name;
         }
@@ -1594,12 +3087,19 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             if (key === "hoverOverride" || key === "selectedOverride") continue;
 
             // @ts-ignore
-            style[key] = cell.styleOverride?.[key] || style[key];
+            style[key] = cell.styleOverride?.[key] || globalStyleOverride?.[key] || style[key];
         }
 
+        // The seat state shows over the cell's own style, hover and selection show over both
+        const seatStateStyle = this.seatStateStyles[seatState];
+        const ownStyle = { ...cell.styleOverride, ...seatStateStyle };
+
+        Object.assign(style, seatStateStyle);
+
         if (hoverState) {
             Object.assign(style, DEFAULT_CELL_STYLES[cell.type].hoverOverride);
-            Object.assign(style, cell.styleOverride || {});
+            Object.assign(style, globalStyleOverride?.hoverOverride || {});
+            Object.assign(style, ownStyle);
 
             if (cell.styleOverride?.hoverOverride) {
                 Object.assign(style, cell.styleOverride.hoverOverride);
@@ -1609,7 +3109,9 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         if (selectedState) {
             Object.assign(style, DEFAULT_CELL_STYLES[cell.type].hoverOverride);
             Object.assign(style, DEFAULT_CELL_STYLES[cell.type].selectedOverride);
-            Object.assign(style, cell.styleOverride || {});
+            Object.assign(style, globalStyleOverride?.hoverOverride || {});
+            Object.assign(style, globalStyleOverride?.selectedOverride || {});
+            Object.assign(style, ownStyle);
             Object.assign(style, cell.styleOverride?.hoverOverride || {});
 
             if (cell.styleOverride?.selectedOverride) {
@@ -1638,85 +3140,165 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
         this.state.selectedCells = [];
         this.state.hoveredCell = -1;
 
+        this.emitSelectionChange();
+
         this.render();
     }
 
     public exportMapLayout(): MapLayoutInput {
-        const { mapLayout } = this.history;
-        const cells: (Cell | `${number}`)[] = [];
+        return this.layout.exportMapLayout();
+    }
 
-        let comboCount = 0;
+    /**
+     * Renders the layout, or a region of it in map pixels as returned by getCellBounds, to an offscreen canvas.
+     * Unlike a screenshot it isn't clipped by the camera and leaves out the FPS counter, hover and selection.
+     */
+    public toImage(options: { scale?: number, region?: [number, number, number, number], includeGrid?: boolean, type?: string } = {}): Promise<Blob> {
+        const scale = options.scale ?? 1;
+        const { mapLayout } = this.history;
+        const [minX, maxX, minY, maxY] = options.region ?? [0, mapLayout.x * CELL_SIZE, 0, mapLayout.y * CELL_SIZE];
 
-        for (let cell of mapLayout.cells) {
-            if (cell === null) {
-                comboCount++;
+        const width = Math.ceil((maxX - minX) * scale);
+        const height = Math.ceil((maxY - minY) * scale);
 
-                continue;
-            }
+        if (width <= 0 || height <= 0) {
+            return Promise.reject(new Error("Cannot export an image of an empty region."));
+        }
 
-            if (comboCount > 0) {
-                cells.push(`${comboCount}`);
-                comboCount = 0;
-            }
+        if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
+            return Promise.reject(new Error(`Image of ${width}x${height} pixels is larger than the maximum of ${MAX_IMAGE_SIZE} pixels per side, use a lower scale.`));
+        }
 
-            const cellCopy: Cell = { ...cell };
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
 
-            if (JSON.stringify(cellCopy.styleOverride) === "{}" || cellCopy.styleOverride === undefined) {
-                delete cellCopy.styleOverride;
-            }
+        const ctx = canvas.getContext("2d");
 
-            cells.push(cellCopy);
+        if (!ctx) {
+            return Promise.reject(new Error("Couldn't get a 2D context for the offscreen canvas."));
         }
 
-        if (comboCount > 0) {
-            cells.push(`${comboCount}`);
-        }
+        ctx.fillStyle = mapLayout.globalOverride.backgroundColor;
+        ctx.fillRect(0, 0, width, height);
+
+        const { layers } = this.buildRenderInstructions({
+            zoom: scale,
+            cameraX: minX,
+            cameraY: minY,
+            width,
+            height,
+            interactive: false,
+            includeGrid: options.includeGrid
+        });
+
+        this.drawInstructions(ctx, layers, scale, width, height);
 
-        const exportData: MapLayoutInput = {
-            x: mapLayout.x,
-            y: mapLayout.y,
-            cells: cells,
-            globalOverride: {
-                backgroundColor: mapLayout.globalOverride.backgroundColor,
-                zoomLevel: mapLayout.globalOverride.zoomLevel,
-                cellStyleOverride: {
-                    seat: mapLayout.globalOverride.cellStyleOverride.seat,
-                    aisle: mapLayout.globalOverride.cellStyleOverride.aisle,
-                    wall: mapLayout.globalOverride.cellStyleOverride.wall,
-                    door: mapLayout.globalOverride.cellStyleOverride.door,
-                    custom: mapLayout.globalOverride.cellStyleOverride.custom
+        return new Promise((resolve, reject) => {
+            canvas.toBlob(blob => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error("Couldn't encode the map image."));
                 }
-            }
+            }, options.type ?? "image/png");
+        });
+    }
+
+    /**
+     * Renders the whole layout to an SVG document at the given zoom, without camera offset, grid, hover or selection.
+     */
+    public toSVG(options: { zoom?: number } = {}): string {
+        const zoom = options.zoom ?? 1;
+        const { mapLayout } = this.history;
+
+        const width = mapLayout.x * CELL_SIZE * zoom;
+        const height = mapLayout.y * CELL_SIZE * zoom;
+
+        const { layers } = this.buildRenderInstructions({
+            zoom,
+            cameraX: 0,
+            cameraY: 0,
+            width,
+            height,
+            interactive: false
+        });
+
+        return renderInstructionsToSVG(layers, width, height, zoom, mapLayout.globalOverride.backgroundColor);
+    }
+
+    /**
+     * Exports every cell with its index, coordinates, type, name and key style fields as CSV.
+     */
+    public exportCSV(): string {
+        return exportCellsToCSV(this.layout);
+    }
+
+    /**
+     * Updates cell names and types from CSV, matching rows by coordinates or name.
+     * The whole import is a single history entry. Rows that can't be applied are returned as errors.
+     */
+    public importCSV(text: string, options: { matchBy?: CSVMatchBy, lockedCells?: number[] } = {}): { updated: number, errors: CSVImportIssue[] } {
+        const changes = getCSVImportChanges(this.layout, text, options.matchBy, options.lockedCells);
+
+        if (changes.index.length > 0) {
+            this.history.swapCells(changes.index, changes.was, changes.became);
+
+            this.render(true);
         }
 
+        return { updated: changes.index.length, errors: changes.errors };
+    }
 
-        if (exportData.globalOverride) {
-            if (exportData.globalOverride.cellStyleOverride) {
-                for (const key in exportData.globalOverride.cellStyleOverride) {
-                    //@ts-expect-error
-                    if (exportData.globalOverride.cellStyleOverride[key] === undefined) {
-                        //@ts-expect-error
-                        delete exportData.globalOverride.cellStyleOverride[key];
-                    }
-                }
-            }
-            if (JSON.stringify(exportData.globalOverride.cellStyleOverride) === "{}" || exportData.globalOverride.cellStyleOverride === undefined) {
-                delete exportData.globalOverride.cellStyleOverride;
-            }
-            if (exportData.globalOverride.backgroundColor === DEFAULT_MAP_BACKGROUND_COLOR || exportData.globalOverride.backgroundColor === undefined) {
-                delete exportData.globalOverride.backgroundColor;
+    /**
+     * Renders the layout cropped to its cells as a printable PDF, followed by an index of every named seat.
+     * Reservations are keyed by cell index and listed next to the seat name.
+     * Warnings list colors and seat icons the PDF couldn't draw as they look on the map.
+     */
+    public toPDF(options: { reservations?: Record<number, string> } = {}): { pdf: Blob, warnings: string[] } {
+        const { mapLayout } = this.history;
+        const reservations = options.reservations ?? {};
+
+        let [minX, maxX, minY, maxY] = this.layout.getCellBounds();
+
+        if (maxX <= minX || maxY <= minY) {
+            [minX, maxX, minY, maxY] = [0, mapLayout.x * CELL_SIZE, 0, mapLayout.y * CELL_SIZE];
+        }
+
+        const { layers } = this.buildRenderInstructions({
+            zoom: 1,
+            cameraX: minX,
+            cameraY: minY,
+            width: maxX - minX,
+            height: maxY - minY,
+            interactive: false
+        });
+
+        const seatIndex: PDFSeatIndexRow[] = [];
+
+        mapLayout.cells.forEach((cell, cellIndex) => {
+            if (cell !== null && cell.type === "seat" && cell.name) {
+                seatIndex.push({ name: cell.name, reservation: reservations[cellIndex] });
             }
-            if (exportData.globalOverride.zoomLevel === DEFAULT_ZOOM_LEVEL || exportData.globalOverride.zoomLevel === undefined) {
-                delete exportData.globalOverride.zoomLevel;
+        });
+
+        seatIndex.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+        // The canvas normalizes any CSS color it accepts into hex or rgba()
+        const resolveColor = (color: string) => {
+            if (!this.ctx) {
+                return color;
             }
 
-        }
+            this.ctx.fillStyle = "#000";
+            this.ctx.fillStyle = color;
 
-        if (JSON.stringify(exportData.globalOverride) === "{}" || exportData.globalOverride === undefined) {
-            delete exportData.globalOverride;
-        }
+            return String(this.ctx.fillStyle);
+        };
 
-        return exportData;
+        const { document: content, warnings } = renderInstructionsToPDF(layers, maxX - minX, maxY - minY, 1, mapLayout.globalOverride.backgroundColor, seatIndex, resolveColor);
+
+        return { pdf: new Blob([content], { type: "application/pdf" }), warnings };
     }
 
     private touchToExtendedTouch(touch: Touch): ExtendedTouch {
@@ -1758,6 +3340,8 @@ export default class Map extends EventEmitter<{ save: MapLayoutInput, select: nu
             this.editMenu?.selectCells(this.state.selectedCells);
         }
 
+        this.emitSelectionChange();
+
         this.render();
     }
 }
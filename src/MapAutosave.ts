@@ -0,0 +1,135 @@
+import { DEFAULT_AUTOSAVE_OPTIONS } from "./data";
+import type Map from "./Map";
+import type { AutosaveOptions, AutosaveSnapshot } from "./types";
+
+type AutosaveData = {
+    lastSavedAt: number | null;
+    snapshots: AutosaveSnapshot[]; // Oldest first
+}
+
+/**
+ * Snapshots the layout of an editing map to browser storage after every history change,
+ * so work that was never saved can be recovered after a crash or reload.
+ */
+export class MapAutosave {
+    map: Map;
+    options: AutosaveOptions;
+
+    constructor(map: Map, options: Partial<AutosaveOptions> = {}) {
+        this.map = map;
+        this.options = { ...DEFAULT_AUTOSAVE_OPTIONS, ...options };
+
+        this.map.on("historychange", () => {
+            this.snapshot();
+        });
+
+        this.map.on("save", () => {
+            this.markSaved();
+        });
+    }
+
+    private get storage() {
+        return this.options.storage ?? globalThis.localStorage;
+    }
+
+    private read(): AutosaveData {
+        try {
+            const data = JSON.parse(this.storage.getItem(this.options.key) ?? "null");
+
+            if (data !== null && Array.isArray(data.snapshots)) {
+                return data;
+            }
+        } catch (error) {
+            console.error("Autosave data is unreadable and will be replaced.", error);
+        }
+
+        return { lastSavedAt: null, snapshots: [] };
+    }
+
+    private write(data: AutosaveData) {
+        // Drop the oldest snapshots until the data fits in the storage quota
+        while (true) {
+            try {
+                this.storage.setItem(this.options.key, JSON.stringify(data));
+
+                return;
+            } catch (error) {
+                if (data.snapshots.length <= 1) {
+                    console.error("Autosave data doesn't fit in storage.", error);
+
+                    return;
+                }
+
+                data.snapshots.shift();
+            }
+        }
+    }
+
+    /**
+     * Stores the current layout and undo stack as the newest snapshot, keeping at most maxSnapshots.
+     */
+    snapshot() {
+        const data = this.read();
+
+        // The undo stack can be much larger than the layout, and only the newest one is restored after a reload
+        for (const snapshot of data.snapshots) {
+            delete snapshot.history;
+        }
+
+        data.snapshots.push({
+            savedAt: Date.now(),
+            layout: this.map.exportMapLayout(),
+            history: this.map.history.serialize()
+        });
+
+        if (data.snapshots.length > this.options.maxSnapshots) {
+            data.snapshots.splice(0, data.snapshots.length - this.options.maxSnapshots);
+        }
+
+        this.write(data);
+    }
+
+    /**
+     * Remembers that the layout was saved, snapshots up to now no longer count as unsaved work.
+     */
+    markSaved() {
+        const data = this.read();
+
+        data.lastSavedAt = Date.now();
+
+        this.write(data);
+    }
+
+    getSnapshots(): AutosaveSnapshot[] {
+        return this.read().snapshots;
+    }
+
+    /**
+     * Returns the newest snapshot taken after the last save, unless it matches the layout currently shown.
+     */
+    getRecoverableSnapshot(): AutosaveSnapshot | null {
+        const { lastSavedAt, snapshots } = this.read();
+        const snapshot = snapshots[snapshots.length - 1];
+
+        if (snapshot === undefined || (lastSavedAt !== null && snapshot.savedAt <= lastSavedAt)) {
+            return null;
+        }
+
+        if (JSON.stringify(snapshot.layout) === JSON.stringify(this.map.exportMapLayout())) {
+            return null;
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Forgets every snapshot.
+     */
+    discard() {
+        const data = this.read();
+
+        data.snapshots = [];
+
+        this.write(data);
+    }
+}
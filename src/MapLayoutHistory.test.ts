@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import { MapLayoutHistory, getResizedOperations, type MapLayoutHistoryOperation, type MapLayoutResizeOperation } from "./MapLayoutHistory";
+import { MapLayoutModel } from "./MapLayoutModel";
+
+// A 2x2 layout with a seat in every cell, named after its index
+function createHistory() {
+    const layout = new MapLayoutModel({
+        x: 2,
+        y: 2,
+        cells: ["0", "1", "2", "3"].map(name => ({ type: "seat" as const, name }))
+    });
+
+    return new MapLayoutHistory(layout.mapLayout);
+}
+
+// Records a change on a copy of the layout, the way another editor would, and returns its operations
+function remoteOperations(history: MapLayoutHistory, change: (remote: MapLayoutHistory) => void) {
+    const remote = new MapLayoutHistory(structuredClone(history.mapLayout));
+    const operations: MapLayoutHistoryOperation[] = [];
+
+    remote.on("historychange", ({ operations: changed }) => operations.push(...changed));
+    change(remote);
+
+    return operations;
+}
+
+describe("MapLayoutHistory.rebase", () => {
+    test("undo after a remote row insert changes the moved cell", () => {
+        const history = createHistory();
+
+        history.changeAttribute(1, "name", "1", "B");
+
+        // A new empty row above the others moves cell 1 to index 3
+        const operations = remoteOperations(history, remote => remote.resizeGrid([0, 1], [-1, 0, 1]));
+
+        history.applyOperations(operations);
+        history.rebase(operations);
+
+        expect(history.mapLayout.cells[3]?.name).toBe("B");
+        expect(history.undo()).toBe(true);
+        expect(history.mapLayout.cells.map(cell => cell?.name)).toEqual([undefined, undefined, "0", "1", "2", "3"]);
+    });
+
+    test("drops changes to cells a remote op changed", () => {
+        const history = createHistory();
+
+        history.changeAttribute(0, "name", "0", "A");
+        history.changeAttribute(1, "name", "1", "B");
+
+        const operations = remoteOperations(history, remote => remote.changeAttribute(1, "name", "B", "C"));
+
+        history.applyOperations(operations);
+        history.rebase(operations);
+
+        expect(history.undo()).toBe(true);
+        expect(history.canUndo()).toBe(false);
+        expect(history.mapLayout.cells.map(cell => cell?.name)).toEqual(["0", "C", "2", "3"]);
+    });
+
+    test("drops a local resize and everything before it, undoing it would revert remote changes", () => {
+        const history = createHistory();
+
+        history.changeAttribute(0, "name", "0", "A");
+        history.resizeGrid([0, 1, -1], [0, 1]);
+        history.changeAttribute(4, "type", "seat", "wall");
+
+        const operations = remoteOperations(history, remote => remote.swapCell(2, null, { type: "door" }));
+
+        history.applyOperations(operations);
+        history.rebase(operations);
+
+        expect(history.undo()).toBe(true);
+        expect(history.canUndo()).toBe(false);
+        expect(history.mapLayout.x).toBe(3);
+        expect(history.mapLayout.cells[2]?.type).toBe("door");
+    });
+
+    test("drops everything that could be redone", () => {
+        const history = createHistory();
+
+        history.changeAttribute(0, "name", "0", "A");
+        history.undo();
+
+        const operations = remoteOperations(history, remote => remote.changeAttribute(3, "name", "3", "D"));
+
+        history.applyOperations(operations);
+        history.rebase(operations);
+
+        expect(history.canRedo()).toBe(false);
+    });
+});
+
+describe("MapLayoutHistory.serialize", () => {
+    test("restored history undoes and redoes like the original", () => {
+        const history = createHistory();
+
+        history.changeAttribute(0, "name", "0", "A");
+        history.resizeGrid([0, 1, -1], [0, 1]);
+        history.swapCell(2, null, { type: "wall" });
+        history.undo();
+
+        const restored = new MapLayoutHistory(structuredClone(history.mapLayout));
+
+        expect(restored.restore(JSON.parse(JSON.stringify(history.serialize())))).toBe(true);
+        expect(restored.canRedo()).toBe(true);
+
+        restored.redo();
+        expect(restored.mapLayout.cells[2]?.type).toBe("wall");
+
+        restored.undo();
+        restored.undo();
+        restored.undo();
+        expect(restored.canUndo()).toBe(false);
+        expect(restored.mapLayout.cells.map(cell => cell?.name)).toEqual(["0", "1", "2", "3"]);
+    });
+
+    test("keeps the current history when the data is for another layout size", () => {
+        const history = createHistory();
+        const other = createHistory();
+
+        history.changeAttribute(0, "name", "0", "A");
+        other.resizeGrid([0, 1, -1], [0, 1]);
+
+        expect(history.restore(other.serialize())).toBe(false);
+        expect(history.canUndo()).toBe(true);
+    });
+
+    test("rejects malformed data", () => {
+        const history = createHistory();
+        const serialized = history.serialize();
+
+        expect(history.restore({ ...serialized, i: 5 })).toBe(false);
+        expect(history.restore({ ...serialized, t: "nope" } as unknown as typeof serialized)).toBe(false);
+    });
+});
+
+describe("getResizedOperations", () => {
+    const resize = (columns: number[], rows: number[]) =>
+        remoteOperations(createHistory(), remote => remote.resizeGrid(columns, rows))[0] as MapLayoutResizeOperation;
+
+    test("moves cells along with an inserted row", () => {
+        const [operation] = getResizedOperations([{ action: "changeAttribute", index: [3], attribute: "name", was: ["3"], became: ["D"] }], resize([0, 1], [-1, 0, 1]));
+
+        expect(operation).toEqual({ action: "changeAttribute", index: [5], attribute: "name", was: ["3"], became: ["D"] });
+    });
+
+    test("leaves out cells of a deleted column and operations left without cells", () => {
+        const operations = getResizedOperations([
+            { action: "swapCells", index: [0, 1], was: [null, null], became: [{ type: "wall" }, { type: "door" }] },
+            { action: "swapCells", index: [2], was: [null], became: [{ type: "aisle" }] }
+        ], resize([1], [0, 1]));
+
+        expect(operations).toEqual([{ action: "swapCells", index: [0], was: [null], became: [{ type: "door" }] }]);
+    });
+
+    test("drops resizes and keeps section changes", () => {
+        const sections: MapLayoutHistoryOperation = { action: "sections", index: [], was: [], became: [] };
+
+        expect(getResizedOperations([resize([0, 1, -1], [0, 1]), sections], resize([0, 1], [0]))).toEqual([sections]);
+    });
+});
@@ -1,255 +1,558 @@
-import type { Cell, CellStyleOverride, MapLayout, PureCell } from "./types";
-
-type Action = "changeAttribute" | "swappedCell" | "swappedCells";
-
-type attributeContent = ("seat" | "aisle" | "wall" | "door" | "custom") & (CellStyleOverride | undefined);
+import { CELL_ATTRIBUTES, DEFAULT_HISTORY_DEPTH } from "./data";
+import type { Cell, MapLayout, MapSection, PureCell } from "./types";
+import { EventEmitter, generateId } from "./util";
+
+type AttributeValue = PureCell[keyof PureCell];
+
+/**
+ * The cells of the grid on one side of a resize. columns[i] and rows[i] are the column and row that
+ * column and row i match in the grid on the other side, -1 for one that only exists on this side.
+ */
+export type MapLayoutGrid = {
+    x: number,
+    y: number,
+    cells: Cell[],
+    columns: number[],
+    rows: number[]
+}
 
-type MapLayoutHistoryEntry = {
-    action: "changeAttribute",
-    index: number,
-    attribute: keyof PureCell,
-    was: attributeContent,
-    became: attributeContent
+export type MapLayoutHistoryOperation = {
+    action: "swapCells",
+    index: number[],
+    was: Cell[],
+    became: Cell[]
 } | {
-    action: "changeAttributes",
+    action: "changeAttribute",
     index: number[],
     attribute: keyof PureCell,
-    was: attributeContent[],
-    became: attributeContent[]
+    was: AttributeValue[],
+    became: AttributeValue[]
 } | {
-    action: "swappedCell",
-    index: number,
-    was: Cell,
-    became: Cell
+    action: "resize",
+    index: number[], // Always empty, a resize moves every cell
+    was: MapLayoutGrid,
+    became: MapLayoutGrid
 } | {
-    action: "swappedCells",
-    index: number[],
-    was: Cell[],
-    became: Cell[]
+    action: "sections",
+    index: number[], // Always empty, sections refer to cells by id
+    was: MapSection[],
+    became: MapSection[]
 }
 
+export type MapLayoutResizeOperation = MapLayoutHistoryOperation & { action: "resize" };
+
+export type MapLayoutHistoryChange = {
+    reason: "commit" | "undo" | "redo",
+    // The operations in the order they were applied, undo reports them inverted
+    operations: MapLayoutHistoryOperation[]
+}
+
+type SerializedMapLayoutHistoryOperation =
+    ["s", number[], Cell[], Cell[]] |
+    ["a", number[], keyof PureCell, AttributeValue[], AttributeValue[]] |
+    ["r", MapLayoutGrid, MapLayoutGrid] |
+    ["g", MapSection[], MapSection[]];
+
+/**
+ * Compact JSON form of the history, see MapLayoutHistory.serialize.
+ */
+export type SerializedMapLayoutHistory = {
+    v: 1; // Format version
+    x: number; // Layout size the history was recorded for
+    y: number;
+    i: number;
+    t: SerializedMapLayoutHistoryOperation[][];
+}
+
+/**
+ * Returns the index a cell of the grid before a resize has after it, or -1 if the resize removed it.
+ */
+export function getResizedCellIndex(operation: MapLayoutResizeOperation, cellIndex: number) {
+    const { was, became } = operation;
+
+    const column = was.columns[cellIndex % was.x] ?? -1;
+    const row = was.rows[Math.floor(cellIndex / was.x)] ?? -1;
+
+    return column === -1 || row === -1 ? -1 : row * became.x + column;
+}
+
+/**
+ * Returns operations made before a resize as they apply after it. Cells the resize removed are left out, as are
+ * operations left without cells and other resizes, which were made for a grid that no longer exists.
+ */
+export function getResizedOperations(operations: MapLayoutHistoryOperation[], resize: MapLayoutResizeOperation): MapLayoutHistoryOperation[] {
+    return operations.flatMap(operation => {
+        if (operation.action === "resize") {
+            return [];
+        }
+
+        if (operation.action === "sections") {
+            return [operation];
+        }
+
+        const index = operation.index.map(cellIndex => getResizedCellIndex(resize, cellIndex));
+        const keep = index.map(cellIndex => cellIndex !== -1);
+
+        if (!keep.includes(true)) {
+            return [];
+        }
+
+        return [{
+            ...operation,
+            index: index.filter((_, i) => keep[i]),
+            was: operation.was.filter((_, i) => keep[i]),
+            became: operation.became.filter((_, i) => keep[i])
+        } as MapLayoutHistoryOperation];
+    });
+}
+
+/**
+ * Returns true if the grid is one side of a resize whose other side is other, with matching sizes and mappings.
+ */
+export function isValidGrid(grid: unknown, other: unknown): grid is MapLayoutGrid {
+    const isSize = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+    const isMapping = (mapping: unknown, length: number, otherLength: number) => Array.isArray(mapping) && mapping.length === length &&
+        mapping.every(value => Number.isInteger(value) && value >= -1 && value < otherLength);
+
+    if (typeof grid !== "object" || grid === null || typeof other !== "object" || other === null) {
+        return false;
+    }
+
+    const { x, y, cells, columns, rows } = grid as MapLayoutGrid;
+    const { x: otherX, y: otherY } = other as MapLayoutGrid;
+
+    return isSize(x) && isSize(y) && isSize(otherX) && isSize(otherY) && Array.isArray(cells) && cells.length === x * y &&
+        isMapping(columns, x, otherX) && isMapping(rows, y, otherY);
+}
+
+/**
+ * Undo stack of the layout. Every change is an operation, operations are grouped into transactions
+ * and a transaction is what a single undo or redo steps over.
+ * Changes made outside beginTransaction/commit are committed as a transaction of their own.
+ */
+export class MapLayoutHistory extends EventEmitter<{ historychange: MapLayoutHistoryChange, resize: MapLayoutResizeOperation }> {
+    private transactions: MapLayoutHistoryOperation[][] = [];
+    private i: number = 0; // Amount of transactions currently applied
+
+    private pending: MapLayoutHistoryOperation[] = [];
+    private transactionDepth: number = 0;
+
+    // Set in edit mode, cells swapped in without an id, or with one already used elsewhere in the layout, get a new id
+    assignCellIds: boolean = false;
+
+    constructor(public readonly mapLayout: MapLayout, public maxDepth: number = DEFAULT_HISTORY_DEPTH) {
+        super();
+    }
+
+    canUndo() {
+        return this.i > 0;
+    }
+
+    canRedo() {
+        return this.i < this.transactions.length;
+    }
+
+    /**
+     * Groups every change until the matching commit() into one undo step. Transactions may be nested,
+     * only the outermost commit() records the step.
+     */
+    beginTransaction() {
+        this.transactionDepth++;
+    }
+
+    commit() {
+        if (this.transactionDepth === 0) {
+            console.error("Cannot commit without a transaction in progress.");
+
+            return;
+        }
+
+        this.transactionDepth--;
 
-export class MapLayoutHistory {
-    private history: MapLayoutHistoryEntry[] = [];
-    private i: number = 0;
+        if (this.transactionDepth > 0 || this.pending.length === 0) {
+            return;
+        }
 
-    constructor(public readonly mapLayout: MapLayout) { };
+        const operations = this.pending;
+
+        this.pending = [];
+
+        // A new change discards everything that could have been redone
+        this.transactions.length = this.i;
+        this.transactions.push(operations);
+
+        if (this.transactions.length > this.maxDepth) {
+            this.transactions.splice(0, this.transactions.length - this.maxDepth);
+        }
+
+        this.i = this.transactions.length;
+
+        this.emit("historychange", { reason: "commit", operations });
+    }
 
     undo() {
-        if (this.history.length === 0) {
+        if (this.transactionDepth > 0) {
+            console.error("Cannot undo while a transaction is in progress.");
+
             return false;
         }
 
-        if (this.i !== 0) {
-            this.i--;
+        if (!this.canUndo()) {
+            return false;
         }
 
-        const entry = this.history[this.i];
+        const operations = this.transactions[--this.i] as MapLayoutHistoryOperation[];
+        const inverted = operations.map(operation => this.invert(operation)).reverse();
 
-        if (entry === undefined) {
-            console.error("Cannot undo when no history entry is present for desired step.")
+        for (const operation of inverted) {
+            this.apply(operation);
+        }
 
-            return;
+        this.emit("historychange", { reason: "undo", operations: inverted });
+
+        return true;
+    }
+
+    redo() {
+        if (this.transactionDepth > 0) {
+            console.error("Cannot redo while a transaction is in progress.");
+
+            return false;
         }
 
-        if (entry.action === "swappedCell") {
-            this.mapLayout.cells[entry.index] = entry.was;
-        } else if (entry.action === "changeAttribute") {
-            const cell = this.mapLayout.cells[entry.index];
+        if (!this.canRedo()) {
+            return false;
+        }
 
-            if (cell === undefined || cell === null) {
-                console.error("Cannot change attribute on cell that doesn't exist");
+        const operations = this.transactions[this.i++] as MapLayoutHistoryOperation[];
 
-                return;
-            }
+        for (const operation of operations) {
+            this.apply(operation);
+        }
 
-            cell[entry.attribute] = entry.was;
-        } else if (entry.action === "changeAttributes") {
-            for (let i = 0; i < entry.index.length; i++) {
-                const cellIndex = entry.index[i];
-                if (cellIndex === undefined || this.mapLayout.cells[cellIndex] === null) {
-                    return;
-                }
+        this.emit("historychange", { reason: "redo", operations });
 
-                const cell = this.mapLayout.cells[cellIndex];
+        return true;
+    }
 
-                if (cell === undefined || cell === null) {
-                    console.error("Cannot change attribute on cell that doesn't exist");
+    /**
+     * Applies operations made elsewhere, like by another editor, without recording them as an undo step.
+     */
+    applyOperations(operations: MapLayoutHistoryOperation[]) {
+        for (const operation of operations) {
+            this.apply(operation);
+        }
+    }
 
-                    return;
-                }
+    /**
+     * Adapts the undo stack to operations applied with applyOperations, so undoing never reverts or misplaces them.
+     * Redoable transactions are dropped, undoable ones are moved along with resizes. Transactions that would overwrite
+     * a change of the operations are dropped, and a resize, which is undone by restoring every cell, drops itself
+     * and every transaction before it.
+     */
+    rebase(operations: MapLayoutHistoryOperation[]) {
+        if (operations.length === 0) {
+            return;
+        }
 
-                const was = entry.was[i];
+        let transactions = this.transactions.slice(0, this.i);
 
-                if (was === undefined) {
-                    console.error("Cannot change attribute with undefined was.");
+        for (const remote of operations) {
+            const changedCells = new Set(remote.index);
 
-                    return;
+            const overwrites = (operation: MapLayoutHistoryOperation) => {
+                if (operation.action === "sections") {
+                    return remote.action === "sections";
                 }
 
-                cell[entry.attribute] = was;
+                return remote.action !== "resize" && operation.index.some(cellIndex => changedCells.has(cellIndex));
+            };
+
+            transactions = transactions
+                .slice(transactions.findLastIndex(operations => operations.some(operation => operation.action === "resize")) + 1)
+                .filter(operations => !operations.some(overwrites));
+
+            if (remote.action === "resize") {
+                transactions = transactions
+                    .map(operations => getResizedOperations(operations, remote))
+                    .filter(operations => operations.length > 0);
             }
-        } else if (entry.action === "swappedCells") {
-            for (let i = 0; i < entry.index.length; i++) {
-                const index = entry.index[i];
+        }
 
-                if (index === undefined) {
-                    console.error("Cannot swap cell with undefined index.");
+        this.transactions = transactions;
+        this.i = transactions.length;
+    }
 
-                    return;
-                }
+    /**
+     * Forgets every transaction, the layout is left as is.
+     */
+    clear() {
+        this.transactions = [];
+        this.i = 0;
+    }
 
-                const was = entry.was[i];
+    /**
+     * Returns every transaction and the current position as plain JSON, to store the undo stack across reloads.
+     * Only valid together with the layout as it is now, so store both at the same time.
+     */
+    serialize(): SerializedMapLayoutHistory {
+        return {
+            v: 1,
+            x: this.mapLayout.x,
+            y: this.mapLayout.y,
+            i: this.i,
+            t: this.transactions.map(operations => operations.map((operation): SerializedMapLayoutHistoryOperation => {
+                if (operation.action === "swapCells") {
+                    return ["s", operation.index, operation.was, operation.became];
+                }
 
-                if (was === undefined) {
-                    console.error("Cannot swap cell with undefined was.");
+                if (operation.action === "resize") {
+                    return ["r", operation.was, operation.became];
+                }
 
-                    return;
+                if (operation.action === "sections") {
+                    return ["g", operation.was, operation.became];
                 }
 
-                this.mapLayout.cells[index] = was;
-            }
-        }
+                return ["a", operation.index, operation.attribute, operation.was, operation.became];
+            }))
+        };
     }
 
-    redo() {
-        if (this.history.length === 0) {
-            return;
+    /**
+     * Replaces the history with a serialized one, the layout is left as is.
+     * Returns false and keeps the current history if the data is malformed or recorded for another layout size.
+     */
+    restore(serialized: SerializedMapLayoutHistory) {
+        if (this.transactionDepth > 0) {
+            console.error("Cannot restore history while a transaction is in progress.");
+
+            return false;
         }
 
-        const entry = this.history[this.i++];
+        if (typeof serialized !== "object" || serialized === null || serialized.v !== 1 || !Array.isArray(serialized.t)) {
+            console.error("Cannot restore history from malformed data.");
 
-        if (entry === undefined) {
-            console.error("Cannot redo when no history entry is present for desired step.");
+            return false;
+        }
 
-            return;
+        if (serialized.x !== this.mapLayout.x || serialized.y !== this.mapLayout.y) {
+            console.error("Cannot restore history recorded for a layout of another size.");
+
+            return false;
         }
 
-        if (entry.action === "swappedCell") {
-            this.mapLayout.cells[entry.index] = entry.became;
-        } else if (entry.action === "changeAttribute") {
-            const cell = this.mapLayout.cells[entry.index];
+        const transactions: MapLayoutHistoryOperation[][] = [];
 
-            if (cell === undefined || cell === null) {
-                console.error("Cannot change attribute on cell that doesn't exist");
+        for (const serializedOperations of serialized.t) {
+            if (!Array.isArray(serializedOperations)) {
+                console.error("Cannot restore history from malformed data.");
 
-                return;
+                return false;
             }
 
-            cell[entry.attribute] = entry.became;
-        } else if (entry.action === "changeAttributes") {
-            for (let i = 0; i < entry.index.length; i++) {
-                const cellIndex = entry.index[i];
-                if (cellIndex === undefined || this.mapLayout.cells[cellIndex] === null) {
-                    return;
+            const operations: MapLayoutHistoryOperation[] = [];
+
+            for (const operation of serializedOperations) {
+                if (operation[0] === "r") {
+                    if (!isValidGrid(operation[1], operation[2]) || !isValidGrid(operation[2], operation[1])) {
+                        console.error("Cannot restore history from malformed data.");
+
+                        return false;
+                    }
+
+                    operations.push({ action: "resize", index: [], was: operation[1], became: operation[2] });
+
+                    continue;
                 }
 
-                const cell = this.mapLayout.cells[cellIndex];
+                if (operation[0] === "g") {
+                    if (!Array.isArray(operation[1]) || !Array.isArray(operation[2])) {
+                        console.error("Cannot restore history from malformed data.");
+
+                        return false;
+                    }
 
-                if (cell === undefined || cell === null) {
-                    console.error("Cannot change attribute on cell that doesn't exist");
+                    operations.push({ action: "sections", index: [], was: operation[1], became: operation[2] });
 
-                    return;
+                    continue;
                 }
 
-                const became = entry.became[i];
+                const index = operation[1];
+                const [was, became]: unknown[] = operation[0] === "s" ? [operation[2], operation[3]] : [operation[3], operation[4]];
 
-                if (became === undefined) {
-                    console.error("Cannot change attribute with undefined became.");
+                if (!Array.isArray(index) || !Array.isArray(was) || !Array.isArray(became) || was.length !== index.length || became.length !== index.length) {
+                    console.error("Cannot restore history from malformed data.");
 
-                    return;
+                    return false;
                 }
 
-                cell[entry.attribute] = became;
+                if (operation[0] === "s") {
+                    operations.push({ action: "swapCells", index, was: operation[2], became: operation[3] });
+                } else if (operation[0] === "a" && CELL_ATTRIBUTES.includes(operation[2])) {
+                    // No attribute is ever null, JSON stored undefined array entries as null
+                    const toAttributeValue = (value: AttributeValue) => value === null ? undefined : value;
+
+                    operations.push({ action: "changeAttribute", index, attribute: operation[2], was: operation[3].map(toAttributeValue), became: operation[4].map(toAttributeValue) });
+                } else {
+                    console.error("Cannot restore history from malformed data.");
+
+                    return false;
+                }
             }
-        } else if (entry.action === "swappedCells") {
-            for (let i = 0; i < entry.index.length; i++) {
-                const index = entry.index[i];
-
-                if (index === undefined) {
-                    console.error("Cannot swap cell with undefined index.");
-                    
-                    return;
+
+            transactions.push(operations);
+        }
+
+        if (!Number.isInteger(serialized.i) || serialized.i < 0 || serialized.i > transactions.length || !this.hasValidIndexes(transactions, serialized.i)) {
+            console.error("Cannot restore history from malformed data.");
+
+            return false;
+        }
+
+        // Only transactions that can be undone are dropped, dropping redoable ones would skip changes on redo
+        const dropped = Math.max(0, Math.min(transactions.length - this.maxDepth, serialized.i));
+
+        this.transactions = transactions.slice(dropped);
+        this.i = serialized.i - dropped;
+        this.pending = [];
+
+        return true;
+    }
+
+    // Every cell index must exist in the grid as it is when the operation applies. Resizes change the grid,
+    // so the size is followed backwards from the current layout for undoable transactions and forwards for redoable ones
+    private hasValidIndexes(transactions: MapLayoutHistoryOperation[][], i: number) {
+        const isValidOperation = (operation: MapLayoutHistoryOperation, x: number, y: number) => operation.action === "resize" ||
+            operation.index.every(index => Number.isInteger(index) && index >= 0 && index < x * y);
+
+        let { x, y } = this.mapLayout;
+
+        for (const operation of transactions.slice(0, i).flat().reverse()) {
+            if (operation.action === "resize") {
+                if (operation.became.x !== x || operation.became.y !== y) {
+                    return false;
                 }
 
-                const became = entry.became[i];
+                ({ x, y } = operation.was);
+            } else if (!isValidOperation(operation, x, y)) {
+                return false;
+            }
+        }
 
-                if (became === undefined) {
-                    console.error("Cannot swap cell with undefined became.");
+        ({ x, y } = this.mapLayout);
 
-                    return;
+        for (const operation of transactions.slice(i).flat()) {
+            if (operation.action === "resize") {
+                if (operation.was.x !== x || operation.was.y !== y) {
+                    return false;
                 }
 
-                this.mapLayout.cells[index] = became;
+                ({ x, y } = operation.became);
+            } else if (!isValidOperation(operation, x, y)) {
+                return false;
             }
         }
 
-        this.i++;
+        return true;
     }
 
-    swapCell(index: number, from: Cell, to: Cell) {
-        this.mapLayout.cells[index] = to;
-
-        this.addHistoryEntry({
-            action: "swappedCell",
-            index,
-            was: from,
-            became: to
-        })
-    }
+    /**
+     * Rebuilds the grid from the given columns and rows of the current one, -1 adds an empty column or row.
+     * Cells in columns and rows that aren't given are removed. Ids are kept, since every cell stays the same cell.
+     */
+    resizeGrid(columns: number[], rows: number[]) {
+        const { x, y, cells } = this.mapLayout;
 
-    swapCells(index: number[], from: Cell[], to: Cell[]) {
-        for (let i = 0; i < index.length; i++) {
-            const cellIndex = index[i];
+        const isMapping = (mapping: number[], length: number) => mapping.length > 0 &&
+            mapping.every(value => Number.isInteger(value) && value >= -1 && value < length) &&
+            new Set(mapping.filter(value => value !== -1)).size === mapping.filter(value => value !== -1).length;
 
-            if (cellIndex === undefined) {
-                console.error("Cannot swap cell with undefined index.");
+        if (!isMapping(columns, x) || !isMapping(rows, y)) {
+            console.error("Cannot resize the grid with invalid or repeated columns or rows.");
 
-                return;
-            }
+            return;
+        }
+
+        const becameCells: Cell[] = [];
 
-            this.mapLayout.cells[cellIndex] = this.deepClone(to[i]);
+        for (const row of rows) {
+            for (const column of columns) {
+                becameCells.push(row === -1 || column === -1 ? null : cells[row * x + column] ?? null);
+            }
         }
 
-        this.addHistoryEntry({
-            action: "swappedCells",
-            index,
-            was: from,
-            became: to
-        })
+        const matching = (mapping: number[], length: number) => Array.from({ length }, (_, i) => mapping.indexOf(i));
+
+        this.record({
+            action: "resize",
+            index: [],
+            was: { x, y, cells: this.deepClone(cells), columns: matching(columns, x), rows: matching(rows, y) },
+            became: { x: columns.length, y: rows.length, cells: becameCells, columns: [...columns], rows: [...rows] }
+        });
     }
 
-    private deepClone(obj: any) {
-        return JSON.parse(JSON.stringify(obj));
+    /**
+     * Replaces the sections and rows of the layout.
+     */
+    setSections(sections: MapSection[]) {
+        this.record({
+            action: "sections",
+            index: [],
+            was: this.deepClone(this.mapLayout.sections),
+            became: this.deepClone(sections)
+        });
     }
 
-    changeAttribute(index: number, attribute: keyof PureCell, from: attributeContent, to: attributeContent) {
-        const cell = this.mapLayout.cells[index];
+    swapCell(index: number, from: Cell, to: Cell) {
+        this.swapCells([index], [from], [to]);
+    }
 
-        if (cell === undefined || cell === null) {
-            console.error("Cannot change attribute on cell that doesn't exist");
+    swapCells(index: number[], from: Cell[], to: Cell[]) {
+        if (index.some(cellIndex => cellIndex === undefined) || from.length !== index.length || to.length !== index.length) {
+            console.error("Cannot swap cells with mismatched indexes and cells.");
 
             return;
         }
 
-        cell[attribute] = to;
-
-        this.addHistoryEntry({
-            action: "changeAttribute",
-            index,
-            attribute,
-            was: from,
-            became: to
-        })
+        this.record({
+            action: "swapCells",
+            index: [...index],
+            was: this.deepClone(from),
+            became: this.deepClone(this.assignCellIds ? this.withUniqueIds(index, to) : to)
+        });
     }
-    changeAttributes(index: number[], attribute: keyof PureCell, from: attributeContent[], to: attributeContent[]) {
-        for (let i = 0; i < index.length; i++) {
-            const cellIndex = index[i];
 
-            if (cellIndex === undefined || this.mapLayout.cells[cellIndex] === null) {
-                return;
+    // A cell moved within the swap keeps its id, a copy of a cell that is still in the layout gets a new one
+    private withUniqueIds(index: number[], cells: Cell[]): Cell[] {
+        const replaced = new Set(index);
+        const usedIds = new Set<string>();
+
+        this.mapLayout.cells.forEach((cell, cellIndex) => {
+            if (cell?.id !== undefined && !replaced.has(cellIndex)) {
+                usedIds.add(cell.id);
             }
+        });
+
+        return cells.map(cell => {
+            if (cell === null) {
+                return cell;
+            }
+
+            const id = cell.id === undefined || usedIds.has(cell.id) ? generateId(usedIds) : cell.id;
+
+            usedIds.add(id);
+
+            return id === cell.id ? cell : { ...cell, id };
+        });
+    }
+
+    changeAttribute(index: number, attribute: keyof PureCell, from: AttributeValue, to: AttributeValue) {
+        this.changeAttributes([index], attribute, [from], [to]);
+    }
 
+    changeAttributes(index: number[], attribute: keyof PureCell, from: AttributeValue[], to: AttributeValue[]) {
+        for (const cellIndex of index) {
             const cell = this.mapLayout.cells[cellIndex];
 
             if (cell === undefined || cell === null) {
@@ -257,37 +560,77 @@ export class MapLayoutHistory {
 
                 return;
             }
+        }
 
-            const becomes = to[i];
-
-            if (becomes === undefined) {
-                console.error("Cannot change attribute with undefined became.");
-
-                return;
-            }
+        if (from.length !== index.length || to.length !== index.length) {
+            console.error("Cannot change attributes with mismatched indexes and values.");
 
-            cell[attribute] = becomes;
+            return;
         }
-        this.addHistoryEntry({
-            action: "changeAttributes",
-            index,
+
+        this.record({
+            action: "changeAttribute",
+            index: [...index],
             attribute,
-            was: from,
-            became: to
-        })
+            // Cloned one by one, JSON turns undefined array entries into null
+            was: from.map(value => this.deepClone(value)),
+            became: to.map(value => this.deepClone(value))
+        });
+    }
+
+    private record(operation: MapLayoutHistoryOperation) {
+        this.apply(operation);
+
+        this.beginTransaction();
+        this.pending.push(operation);
+        this.commit();
     }
 
-    private addHistoryEntry(entry: MapLayoutHistoryEntry) {
-        if (this.history.length > this.i + 1) {
-            this.history.length = this.i + 1;
+    private invert(operation: MapLayoutHistoryOperation): MapLayoutHistoryOperation {
+        return { ...operation, was: operation.became, became: operation.was } as MapLayoutHistoryOperation;
+    }
+
+    private apply(operation: MapLayoutHistoryOperation) {
+        if (operation.action === "resize") {
+            const { x, y, cells } = operation.became;
+
+            this.mapLayout.x = x;
+            this.mapLayout.y = y;
+            // Replaced in place, the cell array is shared with everything holding the layout
+            this.mapLayout.cells.splice(0, this.mapLayout.cells.length, ...this.deepClone(cells));
+
+            this.emit("resize", operation);
+
+            return;
         }
 
-        this.history.push({
-            ...entry,
-            was: this.deepClone(entry.was),
-            became: this.deepClone(entry.became)
+        if (operation.action === "sections") {
+            this.mapLayout.sections.splice(0, this.mapLayout.sections.length, ...this.deepClone(operation.became));
+
+            return;
+        }
+
+        operation.index.forEach((cellIndex, i) => {
+            if (operation.action === "swapCells") {
+                this.mapLayout.cells[cellIndex] = this.deepClone(operation.became[i] ?? null);
+
+                return;
+            }
+
+            const cell = this.mapLayout.cells[cellIndex];
+
+            if (cell === undefined || cell === null) {
+                console.error("Cannot change attribute on cell that doesn't exist");
+
+                return;
+            }
+
+            // @ts-expect-error the attribute and its value come from the same operation
+            cell[operation.attribute] = this.deepClone(operation.became[i]);
         });
+    }
 
-        this.i = this.history.length;
+    private deepClone<T>(obj: T): T {
+        return obj === undefined ? obj : JSON.parse(JSON.stringify(obj));
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,342 @@
+import { CELL_SIZE, CURRENT_LAYOUT_VERSION, DEFAULT_MAP_BACKGROUND_COLOR, DEFAULT_ZOOM_LEVEL } from "./data";
+import { migrateLayout } from "./migrations";
+import type { Cell, MapLayout, MapLayoutInput, MapRow, MapSection } from "./types";
+import { chunks, generateId } from "./util";
+import { validateLayout, type LayoutValidationIssue } from "./validateLayout";
+
+/**
+ * Owns the cells of a layout and everything that can be answered about them without a DOM.
+ * Safe to use server-side to validate, transform and query layouts.
+ */
+export class MapLayoutModel {
+    readonly mapLayout: MapLayout;
+
+    static processInputCells(cells: (Cell | `${number}`)[]): Cell[] {
+        const processedCells: Cell[] = [];
+
+        for (const cell of cells) {
+            if (typeof cell === "string") {
+                const count = parseInt(cell, 10);
+                for (let j = 0; j < count; j++) {
+                    processedCells.push(null);
+                }
+            } else {
+                processedCells.push(cell);
+            }
+        }
+
+        return processedCells;
+    }
+
+    static inputProcessing(input: MapLayoutInput) {
+        let errors: LayoutValidationIssue[];
+
+        try {
+            input = migrateLayout(input);
+            errors = validateLayout(input).errors;
+        } catch (error) {
+            // Unsupported versions and failing migrations are reported like any other invalid layout
+            errors = [{ path: "/version", message: error instanceof Error ? error.message : String(error) }];
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid map layout: ${errors.map(error => `${error.path}: ${error.message}`).join("; ")}`);
+        }
+
+        const processedObjects: Cell[] = MapLayoutModel.processInputCells(input.cells);
+
+        return {
+            x: input.x,
+            y: input.y,
+            cells: processedObjects,
+            sections: JSON.parse(JSON.stringify(input.sections ?? [])),
+            globalOverride: {
+                backgroundColor: input.globalOverride?.backgroundColor || DEFAULT_MAP_BACKGROUND_COLOR,
+                zoomLevel: input.globalOverride?.zoomLevel || DEFAULT_ZOOM_LEVEL,
+                cellStyleOverride: {
+                    seat: input.globalOverride?.cellStyleOverride?.seat,
+                    aisle: input.globalOverride?.cellStyleOverride?.aisle,
+                    wall: input.globalOverride?.cellStyleOverride?.wall,
+                    door: input.globalOverride?.cellStyleOverride?.door,
+                    custom: input.globalOverride?.cellStyleOverride?.custom
+                }
+            }
+        } as MapLayout;
+    }
+
+    constructor(input: MapLayoutInput) {
+        this.mapLayout = MapLayoutModel.inputProcessing(input);
+    }
+
+    get cells() {
+        return this.mapLayout.cells;
+    }
+
+    getCell(cellIndex: number): Cell | undefined {
+        return this.mapLayout.cells[cellIndex];
+    }
+
+    /**
+     * Returns the index of the cell with the given id, or -1 if no cell has it.
+     */
+    getCellIndexById(id: string): number {
+        return this.mapLayout.cells.findIndex(cell => cell?.id === id);
+    }
+
+    getCellById(id: string): Cell | undefined {
+        const cellIndex = this.getCellIndexById(id);
+
+        return cellIndex === -1 ? undefined : this.mapLayout.cells[cellIndex];
+    }
+
+    /**
+     * Gives every cell without an id a new one. Returns the indexes of the cells that got an id.
+     */
+    assignMissingCellIds(): number[] {
+        const usedIds = new Set<string>();
+        const assigned: number[] = [];
+
+        for (const cell of this.mapLayout.cells) {
+            if (cell?.id !== undefined) {
+                usedIds.add(cell.id);
+            }
+        }
+
+        this.mapLayout.cells.forEach((cell, cellIndex) => {
+            if (cell !== null && cell.id === undefined) {
+                cell.id = generateId(usedIds);
+                usedIds.add(cell.id);
+                assigned.push(cellIndex);
+            }
+        });
+
+        return assigned;
+    }
+
+    /**
+     * Returns the section and row the cell is in, or null if it is in none.
+     */
+    getRowOfCell(cellIndex: number): { section: MapSection, row: MapRow } | null {
+        const id = this.mapLayout.cells[cellIndex]?.id;
+
+        for (const section of this.mapLayout.sections) {
+            const row = section.rows.find(row => id !== undefined && row.cells.includes(id));
+
+            if (row !== undefined) {
+                return { section, row };
+            }
+        }
+
+        return null;
+    }
+
+    getCoordinatesOfCell(cellIndex: number): [number, number] | [null, null] {
+        if (!Number.isInteger(cellIndex) || cellIndex < 0 || cellIndex >= this.mapLayout.x * this.mapLayout.y) {
+            return [null, null];
+        }
+
+        return [cellIndex % this.mapLayout.x, Math.floor(cellIndex / this.mapLayout.x)];
+    }
+
+    coordinatesToCellIndex(x: number, y: number): number {
+        return y * this.mapLayout.x + x;
+    }
+
+    isInBounds(x: number, y: number) {
+        return x >= 0 && y >= 0 && x < this.mapLayout.x && y < this.mapLayout.y;
+    }
+
+    getSelectionCellBoundsAsCoordinates(selection: number[]): [number, number, number, number] | [null, null, null, null] {
+        if (selection.length === 0) {
+            return [null, null, null, null];
+        }
+
+        let minX = this.mapLayout.x;
+        let maxX = 0;
+        let minY = this.mapLayout.y;
+        let maxY = 0;
+
+        for (const cellIndex of selection) {
+            const [x, y] = this.getCoordinatesOfCell(cellIndex);
+
+            if (x === null) {
+                continue;
+            }
+
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+
+        return [minX, maxX, minY, maxY];
+    }
+
+    /**
+     * Returns the bounds of all non-null cells in map pixels as [minX, maxX, minY, maxY].
+     */
+    getCellBounds(): [number, number, number, number] {
+        const cellRows = [...chunks(this.mapLayout.cells, this.mapLayout.x)];
+
+        let minX = this.mapLayout.x;
+        let maxX = 0;
+        let minY = this.mapLayout.y;
+        let maxY = 0;
+
+        let rowPos = 0;
+
+        for (const row of cellRows) {
+            let pos = 0;
+
+            for (const cell of row) {
+                if (cell === null) {
+                    pos++;
+                    continue;
+                }
+
+                if (pos < minX) {
+                    minX = pos;
+                }
+                if (pos > maxX) {
+                    maxX = pos;
+                }
+
+                if (rowPos < minY) {
+                    minY = rowPos;
+                }
+                if (rowPos > maxY) {
+                    maxY = rowPos;
+                }
+
+                pos++;
+            }
+
+            rowPos++;
+        }
+
+        return [minX * CELL_SIZE, (maxX * CELL_SIZE + CELL_SIZE), minY * CELL_SIZE, ((maxY * CELL_SIZE) + CELL_SIZE)];
+    }
+
+    /**
+     * Checks that the cells form a single group where every cell is reachable through horizontal or vertical neighbours.
+     */
+    areCellsAdjacent(cellIndexes: number[]) {
+        if (cellIndexes.length <= 1) {
+            return true;
+        }
+
+        const columns = this.mapLayout.x;
+        const remaining = new Set(cellIndexes.slice(1));
+        const queue = cellIndexes.slice(0, 1);
+
+        while (queue.length > 0) {
+            const cellIndex = queue.pop() as number;
+            const x = cellIndex % columns;
+
+            const neighbours = [cellIndex - columns, cellIndex + columns];
+
+            if (x > 0) {
+                neighbours.push(cellIndex - 1);
+            }
+
+            if (x < columns - 1) {
+                neighbours.push(cellIndex + 1);
+            }
+
+            for (const neighbour of neighbours) {
+                if (remaining.delete(neighbour)) {
+                    queue.push(neighbour);
+                }
+            }
+        }
+
+        return remaining.size === 0;
+    }
+
+    /**
+     * Exports the layout optimized for storage, runs of null cells are compressed into counts.
+     */
+    exportMapLayout(): MapLayoutInput {
+        const { mapLayout } = this;
+        const cells: (Cell | `${number}`)[] = [];
+
+        let comboCount = 0;
+
+        for (let cell of mapLayout.cells) {
+            if (cell === null) {
+                comboCount++;
+
+                continue;
+            }
+
+            if (comboCount > 0) {
+                cells.push(`${comboCount}`);
+                comboCount = 0;
+            }
+
+            const cellCopy: Cell = { ...cell };
+
+            if (JSON.stringify(cellCopy.styleOverride) === "{}" || cellCopy.styleOverride === undefined) {
+                delete cellCopy.styleOverride;
+            }
+
+            cells.push(cellCopy);
+        }
+
+        if (comboCount > 0) {
+            cells.push(`${comboCount}`);
+        }
+
+        const exportData: MapLayoutInput = {
+            version: CURRENT_LAYOUT_VERSION,
+            x: mapLayout.x,
+            y: mapLayout.y,
+            cells: cells,
+            sections: JSON.parse(JSON.stringify(mapLayout.sections)),
+            globalOverride: {
+                backgroundColor: mapLayout.globalOverride.backgroundColor,
+                zoomLevel: mapLayout.globalOverride.zoomLevel,
+                cellStyleOverride: {
+                    seat: mapLayout.globalOverride.cellStyleOverride.seat,
+                    aisle: mapLayout.globalOverride.cellStyleOverride.aisle,
+                    wall: mapLayout.globalOverride.cellStyleOverride.wall,
+                    door: mapLayout.globalOverride.cellStyleOverride.door,
+                    custom: mapLayout.globalOverride.cellStyleOverride.custom
+                }
+            }
+        }
+
+
+        if (exportData.globalOverride) {
+            if (exportData.globalOverride.cellStyleOverride) {
+                for (const key in exportData.globalOverride.cellStyleOverride) {
+                    //@ts-expect-error
+                    if (exportData.globalOverride.cellStyleOverride[key] === undefined) {
+                        //@ts-expect-error
+                        delete exportData.globalOverride.cellStyleOverride[key];
+                    }
+                }
+            }
+            if (JSON.stringify(exportData.globalOverride.cellStyleOverride) === "{}" || exportData.globalOverride.cellStyleOverride === undefined) {
+                delete exportData.globalOverride.cellStyleOverride;
+            }
+            if (exportData.globalOverride.backgroundColor === DEFAULT_MAP_BACKGROUND_COLOR || exportData.globalOverride.backgroundColor === undefined) {
+                delete exportData.globalOverride.backgroundColor;
+            }
+            if (exportData.globalOverride.zoomLevel === DEFAULT_ZOOM_LEVEL || exportData.globalOverride.zoomLevel === undefined) {
+                delete exportData.globalOverride.zoomLevel;
+            }
+
+        }
+
+        if (exportData.sections?.length === 0) {
+            delete exportData.sections;
+        }
+
+        if (JSON.stringify(exportData.globalOverride) === "{}" || exportData.globalOverride === undefined) {
+            delete exportData.globalOverride;
+        }
+
+        return exportData;
+    }
+}
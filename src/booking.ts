@@ -0,0 +1,66 @@
+export type BookingResult = {
+    ok: true;
+    seats: number[];
+    expiresAt: number | null; // when held seats are released unless confirmed, null for bookings and releases
+} | {
+    ok: false;
+    error: string;
+    unavailable: number[]; // seats someone else holds or has booked
+}
+
+/**
+ * Books seats for Map.holdSelectedSeats, Map.confirmBooking and Map.releaseSeats.
+ * Every call either succeeds for all seats or for none of them.
+ */
+export type BookingClient = {
+    hold(seats: number[], minutes?: number): Promise<BookingResult>;
+    confirm(seats: number[]): Promise<BookingResult>;
+    release(seats: number[]): Promise<BookingResult>;
+}
+
+/**
+ * Books seats through the booking endpoints of the demo server, or any backend with the same API.
+ * The client ID identifies who holds a seat, so a reload with the same ID keeps the holds.
+ */
+export class HTTPBookingClient implements BookingClient {
+    url: string;
+    clientId: string;
+
+    constructor(url: string, clientId: string = Math.random().toString(36).slice(2)) {
+        this.url = url;
+        this.clientId = clientId;
+    }
+
+    hold(seats: number[], minutes?: number) {
+        return this.post("hold", { seats, minutes });
+    }
+
+    confirm(seats: number[]) {
+        return this.post("confirm", { seats });
+    }
+
+    release(seats: number[]) {
+        return this.post("release", { seats });
+    }
+
+    private async post(action: string, body: Record<string, unknown>): Promise<BookingResult> {
+        try {
+            const response = await fetch(`${this.url}/${action}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ clientId: this.clientId, ...body })
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                return { ok: false, error: result.error ?? response.statusText, unavailable: result.unavailable ?? [] };
+            }
+
+            return { ok: true, seats: result.seats, expiresAt: result.expiresAt ?? null };
+        } catch (error) {
+            console.error(`Could not ${action} seats.`, error);
+
+            return { ok: false, error: String(error), unavailable: [] };
+        }
+    }
+}
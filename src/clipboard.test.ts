@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { parseCopiedCells, parseNameGrid, serializeCopiedCells } from "./clipboard";
+import { CLIPBOARD_FORMAT } from "./data";
+import type { Cell } from "./types";
+
+describe("parseCopiedCells", () => {
+    const rows: (Cell | undefined)[][] = [
+        [{ type: "seat", name: "A1" }, undefined],
+        [null, { type: "wall" }]
+    ];
+
+    test("reads back serialized cells", () => {
+        expect(parseCopiedCells(serializeCopiedCells(rows), 10, 10)).toEqual(rows);
+    });
+
+    test("ignores text that isn't copied cells", () => {
+        expect(parseCopiedCells("A1\tA2", 10, 10)).toBeNull();
+        expect(parseCopiedCells(JSON.stringify({ format: "other", width: 1, height: 1, cells: [] }), 10, 10)).toBeNull();
+    });
+
+    test("rejects areas larger than the grid before allocating them", () => {
+        const huge = JSON.stringify({ format: CLIPBOARD_FORMAT, width: 1e9, height: 1e9, cells: [] });
+
+        expect(parseCopiedCells(huge, 10, 10)).toBeNull();
+        expect(parseCopiedCells(serializeCopiedCells(rows), 1, 10)).toBeNull();
+    });
+
+    test("rejects cells outside the area and invalid cells", () => {
+        const outside = JSON.stringify({ format: CLIPBOARD_FORMAT, width: 1, height: 1, cells: [{ x: 1, y: 0, cell: { type: "seat" } }] });
+        const invalid = JSON.stringify({ format: CLIPBOARD_FORMAT, width: 1, height: 1, cells: [{ x: 0, y: 0, cell: { type: "chair" } }] });
+
+        expect(parseCopiedCells(outside, 10, 10)).toBeNull();
+        expect(parseCopiedCells(invalid, 10, 10)).toBeNull();
+    });
+});
+
+describe("parseNameGrid", () => {
+    test("splits rows and columns and pads short rows", () => {
+        expect(parseNameGrid("A1\t A2 \tA3\r\nB1\r\n")).toEqual([["A1", "A2", "A3"], ["B1", "", ""]]);
+    });
+
+    test("ignores plain text and JSON", () => {
+        expect(parseNameGrid("A1")).toBeNull();
+        expect(parseNameGrid("{\n\"format\": 1\n}")).toBeNull();
+    });
+});
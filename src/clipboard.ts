@@ -0,0 +1,96 @@
+import { CLIPBOARD_FORMAT } from "./data";
+import type { Cell } from "./types";
+import { validateLayout } from "./validateLayout";
+
+// Only the copied cells are written, by their position in the copied area
+type SerializedCopiedCells = {
+    format: typeof CLIPBOARD_FORMAT;
+    width: number;
+    height: number;
+    cells: { x: number, y: number, cell: Cell }[];
+}
+
+/**
+ * Serializes copied cells, rows with undefined where nothing was copied, to JSON for the system clipboard.
+ */
+export function serializeCopiedCells(rows: (Cell | undefined)[][]): string {
+    const serialized: SerializedCopiedCells = {
+        format: CLIPBOARD_FORMAT,
+        width: rows[0]?.length ?? 0,
+        height: rows.length,
+        cells: []
+    };
+
+    rows.forEach((row, y) => row.forEach((cell, x) => {
+        if (cell !== undefined) {
+            serialized.cells.push({ x, y, cell });
+        }
+    }));
+
+    return JSON.stringify(serialized);
+}
+
+/**
+ * Reads cells serialized by serializeCopiedCells. Returns null if the text isn't copied cells, any of them are invalid
+ * or the copied area is larger than maxWidth x maxHeight, which it can't be pasted in anyway.
+ */
+export function parseCopiedCells(text: string, maxWidth: number, maxHeight: number): (Cell | undefined)[][] | null {
+    let parsed: SerializedCopiedCells;
+
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (parsed?.format !== CLIPBOARD_FORMAT || !Number.isInteger(parsed.width) || !Number.isInteger(parsed.height) || parsed.width < 1 || parsed.height < 1 || !Array.isArray(parsed.cells)) {
+        return null;
+    }
+
+    // Checked before the area is allocated, a corrupted size could otherwise use up all memory
+    if (parsed.width > maxWidth || parsed.height > maxHeight) {
+        console.error("Copied cells are larger than the grid");
+
+        return null;
+    }
+
+    const rows: (Cell | undefined)[][] = Array.from({ length: parsed.height }, () => new Array(parsed.width).fill(undefined));
+
+    for (const entry of parsed.cells) {
+        if (!Number.isInteger(entry?.x) || !Number.isInteger(entry?.y) || entry.x < 0 || entry.y < 0 || entry.x >= parsed.width || entry.y >= parsed.height) {
+            console.error("Copied cell is outside of the copied area");
+
+            return null;
+        }
+
+        (rows[entry.y] as (Cell | undefined)[])[entry.x] = entry.cell;
+    }
+
+    // Validated as a layout of just the copied cells
+    const { valid, errors } = validateLayout({ x: parsed.width, y: parsed.height, cells: rows.flat().map(cell => cell ?? null) });
+
+    if (!valid) {
+        console.error(`Copied cells are invalid: ${errors.map(error => `${error.path} ${error.message}`).join(", ")}`);
+
+        return null;
+    }
+
+    return rows;
+}
+
+/**
+ * Splits tab separated text, e.g. copied from a spreadsheet, into rows of names. Short rows are padded with empty
+ * names to the length of the longest one. Returns null if the text has neither a tab nor a line break, so plain text
+ * isn't taken for names, or looks like JSON, which is most likely copied cells that couldn't be read.
+ */
+export function parseNameGrid(text: string): string[][] | null {
+    if (!/[\t\n]/.test(text) || /^\s*[[{]/.test(text)) {
+        return null;
+    }
+
+    const lines = text.replace(/\r?\n$/, "").split(/\r?\n/);
+    const rows = lines.map(line => line.split("\t").map(name => name.trim()));
+    const width = Math.max(...rows.map(row => row.length));
+
+    return rows.map(row => [...row, ...new Array<string>(width - row.length).fill("")]);
+}
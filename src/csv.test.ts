@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { exportCellsToCSV, getCSVImportChanges, parseCSV } from "./csv";
+import { MapLayoutModel } from "./MapLayoutModel";
+
+// A 2x2 layout with two named seats, a wall and an empty cell
+function createLayout() {
+    return new MapLayoutModel({
+        x: 2,
+        y: 2,
+        cells: [{ type: "seat", name: "A1" }, { type: "seat", name: "A2", styleOverride: { text: "x, \"y\"" } }, { type: "wall" }, null]
+    });
+}
+
+describe("parseCSV", () => {
+    test("reads quoted values with delimiters, quotes and line breaks", () => {
+        expect(parseCSV('a,b\r\n"1,2","say ""hi""\nthere"\n')).toEqual([["a", "b"], ["1,2", "say \"hi\"\nthere"]]);
+    });
+
+    test("detects semicolons from the header line", () => {
+        expect(parseCSV("x;y;name\n0;1;1,5")).toEqual([["x", "y", "name"], ["0", "1", "1,5"]]);
+    });
+});
+
+describe("exportCellsToCSV", () => {
+    test("writes every cell and reads back as the same values", () => {
+        const rows = parseCSV(exportCellsToCSV(createLayout()));
+
+        expect(rows).toHaveLength(5);
+        expect(rows[0]?.slice(0, 5)).toEqual(["index", "x", "y", "type", "name"]);
+        expect(rows[2]?.slice(0, 6)).toEqual(["1", "1", "0", "seat", "A2", "x, \"y\""]);
+        expect(rows[4]?.slice(0, 5)).toEqual(["3", "1", "1", "", ""]);
+    });
+});
+
+describe("getCSVImportChanges", () => {
+    test("updates names and types matched by coordinates and creates typed empty cells", () => {
+        const changes = getCSVImportChanges(createLayout(), "x,y,type,name\n0,0,,B1\n1,1,seat,B2\n");
+
+        expect(changes.errors).toEqual([]);
+        expect(changes.index).toEqual([0, 3]);
+        expect(changes.became).toEqual([{ type: "seat", name: "B1" }, { type: "seat", name: "B2" }]);
+    });
+
+    test("matches by name and only changes the type", () => {
+        const changes = getCSVImportChanges(createLayout(), "name,type\nA2,aisle\n");
+
+        expect(changes.index).toEqual([1]);
+        expect(changes.became[0]?.type).toBe("aisle");
+        expect(changes.became[0]?.name).toBe("A2");
+    });
+
+    test("reports rows it can't apply with their line number", () => {
+        const changes = getCSVImportChanges(createLayout(), "x,y,type,name\n5,0,seat,\n0,0,chair,\n1,1,,C1\n1,0,seat,X\n", undefined, [1]);
+
+        expect(changes.index).toEqual([]);
+        expect(changes.errors.map(error => error.row)).toEqual([2, 3, 4, 5]);
+    });
+
+    test("needs the columns it matches by", () => {
+        expect(getCSVImportChanges(createLayout(), "type\nseat\n", "coordinates").errors).toEqual([{ row: 1, message: "missing column x, y needed to match by coordinates" }]);
+        expect(getCSVImportChanges(createLayout(), "").errors).toEqual([{ row: 1, message: "CSV is empty" }]);
+    });
+});
@@ -0,0 +1,235 @@
+import { CELL_TYPES } from "./data";
+import type { MapLayoutModel } from "./MapLayoutModel";
+import type { Cell, CellStyleOverridePure, CellType, PureCell } from "./types";
+
+export type CSVMatchBy = "coordinates" | "name";
+
+export type CSVImportIssue = {
+    row: number; // 1-based line in the CSV, the header is row 1
+    message: string;
+}
+
+export type CSVImportChanges = {
+    index: number[];
+    was: Cell[];
+    became: Cell[];
+    errors: CSVImportIssue[];
+}
+
+// Style fields included in the export, only names and types are read back on import
+export const CSV_STYLE_COLUMNS: (keyof CellStyleOverridePure)[] = ["text", "backgroundColor", "borderColor", "textColor"];
+
+const CSV_COLUMNS = ["index", "x", "y", "type", "name", ...CSV_STYLE_COLUMNS];
+
+function escapeCSVValue(value: string) {
+    return /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parses CSV text into rows of values. Quoted values may contain delimiters, quotes ("") and line breaks.
+ * The delimiter is detected from the header line, spreadsheets with a comma decimal separator write ";".
+ */
+export function parseCSV(text: string): string[][] {
+    const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+    const delimiter = headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                value += char;
+            }
+
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(value);
+            value = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") {
+                i++;
+            }
+
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = "";
+        } else {
+            value += char;
+        }
+    }
+
+    if (value !== "" || row.length > 0) {
+        row.push(value);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Exports every cell of the layout, empty cells included, as CSV with a header row.
+ */
+export function exportCellsToCSV(layout: MapLayoutModel): string {
+    const lines = [CSV_COLUMNS.join(",")];
+
+    layout.cells.forEach((cell, cellIndex) => {
+        const [x, y] = layout.getCoordinatesOfCell(cellIndex);
+
+        const values = [
+            `${cellIndex}`,
+            `${x}`,
+            `${y}`,
+            cell?.type ?? "",
+            cell?.name ?? "",
+            ...CSV_STYLE_COLUMNS.map(key => `${cell?.styleOverride?.[key] ?? ""}`)
+        ];
+
+        lines.push(values.map(escapeCSVValue).join(","));
+    });
+
+    return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Works out the cell changes a CSV import would make without applying them.
+ * Rows are matched to cells by their x and y columns or by their name column, and may update name and type.
+ * Matching by name can only change the type, since the name is what identifies the cell.
+ * Empty values leave the cell unchanged. Giving a type to an empty cell creates it.
+ */
+export function getCSVImportChanges(layout: MapLayoutModel, text: string, matchBy?: CSVMatchBy, lockedCells: number[] = []): CSVImportChanges {
+    const changes: CSVImportChanges = { index: [], was: [], became: [], errors: [] };
+    const [header, ...rows] = parseCSV(text);
+
+    if (header === undefined) {
+        changes.errors.push({ row: 1, message: "CSV is empty" });
+
+        return changes;
+    }
+
+    const columns = header.map(column => column.trim());
+    const column = (name: string) => columns.indexOf(name);
+
+    matchBy ??= column("x") !== -1 && column("y") !== -1 ? "coordinates" : "name";
+
+    const required = matchBy === "coordinates" ? ["x", "y"] : ["name"];
+    const missing = required.filter(name => column(name) === -1);
+
+    if (missing.length > 0) {
+        changes.errors.push({ row: 1, message: `missing column ${missing.join(", ")} needed to match by ${matchBy}` });
+
+        return changes;
+    }
+
+    const cellIndexesByName: Record<string, number[]> = {};
+
+    layout.cells.forEach((cell, cellIndex) => {
+        if (cell?.name) {
+            (cellIndexesByName[cell.name] ??= []).push(cellIndex);
+        }
+    });
+
+    // Later rows for the same cell build on earlier ones
+    const updated: Record<number, Cell> = {};
+
+    rows.forEach((values, i) => {
+        const row = i + 2;
+        const value = (name: string) => (values[column(name)] ?? "").trim();
+
+        if (values.every(value => value.trim() === "")) {
+            return;
+        }
+
+        let cellIndex: number;
+
+        if (matchBy === "coordinates") {
+            const x = Number(value("x"));
+            const y = Number(value("y"));
+
+            if (value("x") === "" || value("y") === "" || !Number.isInteger(x) || !Number.isInteger(y) || !layout.isInBounds(x, y)) {
+                changes.errors.push({ row, message: `no cell at x ${value("x")}, y ${value("y")}` });
+
+                return;
+            }
+
+            cellIndex = layout.coordinatesToCellIndex(x, y);
+        } else {
+            const matches = cellIndexesByName[value("name")] ?? [];
+
+            if (matches.length !== 1) {
+                changes.errors.push({ row, message: matches.length === 0 ? `no cell named "${value("name")}"` : `${matches.length} cells are named "${value("name")}"` });
+
+                return;
+            }
+
+            cellIndex = matches[0] as number;
+        }
+
+        if (lockedCells.includes(cellIndex)) {
+            changes.errors.push({ row, message: `cell ${cellIndex} is locked` });
+
+            return;
+        }
+
+        const type = column("type") === -1 ? "" : value("type");
+        const name = matchBy === "name" || column("name") === -1 ? "" : value("name");
+
+        if (type !== "" && !CELL_TYPES.includes(type as CellType)) {
+            changes.errors.push({ row, message: `unknown type "${type}"` });
+
+            return;
+        }
+
+        const cell = updated[cellIndex] !== undefined ? updated[cellIndex] : layout.getCell(cellIndex) ?? null;
+
+        if (cell === null && type === "") {
+            if (name !== "") {
+                changes.errors.push({ row, message: `cell ${cellIndex} is empty, a type is needed to name it` });
+            }
+
+            return;
+        }
+
+        const became: PureCell = JSON.parse(JSON.stringify(cell ?? { type }));
+
+        if (type !== "") {
+            became.type = type as CellType;
+        }
+
+        if (name !== "") {
+            became.name = name;
+        }
+
+        updated[cellIndex] = became;
+    });
+
+    for (const key in updated) {
+        const cellIndex = Number(key);
+        const was = layout.getCell(cellIndex) ?? null;
+        const became = updated[cellIndex] as Cell;
+
+        if (JSON.stringify(was) === JSON.stringify(became)) {
+            continue;
+        }
+
+        changes.index.push(cellIndex);
+        changes.was.push(was);
+        changes.became.push(became);
+    }
+
+    return changes;
+}
@@ -1,8 +1,49 @@
-import type { CellStyleOverride, CellType, PossibleZoomLevels } from "./types";
+import type { AutosaveOptions, CellStyleOverride, CollaborationOptions, CellStyleOverridePure, CellType, PossibleZoomLevels, PureCell, SeatBlockOptions, SeatLabelOptions, SeatState } from "./types";
 
 export const CELL_SIZE = 25; // Size of each cell in pixels
 export const ZOOM_LEVELS = [0.8, 1, 1.2, 1.5, 2, 3, 4, 6, 7]; // Predefined zoom levels
 export const MAX_ZOOM = ZOOM_LEVELS[ZOOM_LEVELS.length - 1] as number; // Maximum zoom level
+// Amount of undo steps kept by MapLayoutHistory
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+export const DEFAULT_AUTOSAVE_OPTIONS: AutosaveOptions = {
+    key: "platskarta-autosave",
+    maxSnapshots: 10
+};
+
+export const DEFAULT_COLLABORATION_OPTIONS: CollaborationOptions = {
+    name: "Editor",
+    reconnectDelay: 2000,
+    presenceInterval: 50
+};
+
+export const DEFAULT_SEAT_LABEL_OPTIONS: SeatLabelOptions = {
+    prefix: "",
+    template: "",
+    start: 1,
+    direction: "ltr",
+    resetPerRow: true
+};
+
+export const DEFAULT_SEAT_BLOCK_OPTIONS: SeatBlockOptions = {
+    rows: 4,
+    seatsPerRow: 10,
+    aisleEvery: 0,
+    aisleWidth: 1,
+    rowGap: 1,
+    tableType: null,
+    template: "{row:A}-{col}"
+};
+
+// Copied cells are written to the system clipboard as JSON under the MIME type, and as plain text
+export const CLIPBOARD_MIME_TYPE = "application/x-platskarta-cells+json";
+export const CLIPBOARD_FORMAT = "platskarta-cells";
+
+export const SEAT_LABEL_PREVIEW_COLOR = "#FF0"; // Labels previewed on the map before they are applied
+
+export const MAX_IMAGE_SIZE = 16384; // Largest canvas side most browsers can encode
+
+export const CURRENT_LAYOUT_VERSION = 1; // Bump and register a migration in migrations.ts when the layout format changes
 
 export const DEFAULT_MAP_BACKGROUND_COLOR = "#000";
 export const DEFAULT_ZOOM_LEVEL: PossibleZoomLevels = 1;
@@ -58,6 +99,28 @@ export const DEFAULT_CELL_STYLES: Record<CellType, CellStyleOverride> = {
     }
 }
 
+export const DEFAULT_SEAT_STATE_STYLES: Record<SeatState, CellStyleOverridePure> = {
+    available: {},
+    held: {
+        backgroundColor: "#FA0",
+    },
+    booked: {
+        backgroundColor: "#F00",
+        opacity: 0.6,
+    },
+    blocked: {
+        backgroundColor: "gray",
+        opacity: 0.4,
+    },
+    mine: {
+        backgroundColor: "#08F",
+        textColor: "#FFF",
+    }
+}
+
+// Seat states that can't be selected in view mode
+export const UNSELECTABLE_SEAT_STATES: SeatState[] = ["booked", "blocked"];
+
 export const EDITMENU_LABELS: Record<string, string> = {
     backgroundColor: "Background Color",
     borderColor: "Border Color",
@@ -85,19 +148,84 @@ export const EDITMENU_LABELS: Record<string, string> = {
     hover: "Hover",
     selected: "Select",
     hslct_type: "Choose Cell Type",
+    hslct_paint_type: "Paint Cell Type",
     seat: "Seat",
     aisle: "Aisle",
     wall: "Wall",
     door: "Door",
     custom: "Custom",
+    btn_undo: "Undo",
+    btn_redo: "Redo",
+    autosave_recovery: "Unsaved changes from {time} were found. Do you want to restore them?",
+    btn_restore_snapshot: "Restore",
+    btn_discard_snapshot: "Discard",
     btn_export: "Export",
+    btn_export_svg: "Export SVG",
+    btn_export_pdf: "Export PDF",
+    btn_export_csv: "Export CSV",
+    btn_import_csv: "Import CSV",
+    btn_crop_to_content: "Crop to Content",
+    btn_insert_row_above: "Insert Row Above",
+    btn_insert_row_below: "Insert Row Below",
+    btn_delete_rows: "Delete Selected Rows",
+    btn_insert_column_left: "Insert Column Left",
+    btn_insert_column_right: "Insert Column Right",
+    btn_delete_columns: "Delete Selected Columns",
     btn_toggle_preview: "Toggle Preview",
     btn_save: "Save",
+    field_section: "Section",
+    field_row: "Row",
+    btn_group_row: "Group Selection as Row",
+    btn_ungroup_row: "Remove Selection from Rows",
+    seat_labels_title: "Seat labels are the row name and a number, e.g. B-14. Seats in no row are numbered by grid row.",
+    field_label_prefix: "Prefix",
+    field_label_template: "Template, e.g. {section}{row:A}{col:02}",
+    field_label_start: "Start Number",
+    label_scope_all: "Label All Seats",
+    label_scope_selected: "Label Selected Seats",
+    hslct_label_direction: "Numbering Direction",
+    hslct_label_numbering: "Numbering per Row",
+    hslct_label_scope: "Seats to Label",
+    ltr: "Left to Right",
+    rtl: "Right to Left",
+    serpentine: "Serpentine",
+    reset_per_row: "Restart Numbering Every Row",
+    continue_numbering: "Continue Numbering Through Section",
+    btn_generate_labels: "Generate Labels",
+    btn_back: "Back",
+    btn_seat_block: "Generate Seat Block Here",
+    hslct_transform_target: "Rotate and Flip",
+    transform_selection: "Selection",
+    transform_clipboard: "Copied Cells",
+    btn_rotate_90: "Rotate 90° Clockwise",
+    btn_rotate_180: "Rotate 180°",
+    btn_rotate_270: "Rotate 90° Counterclockwise",
+    btn_flip_horizontal: "Flip Horizontally",
+    btn_flip_vertical: "Flip Vertically",
+    seat_block_title: "Seat block from the top left corner of the selection",
+    field_block_rows: "Rows",
+    field_block_seats_per_row: "Seats per Row",
+    field_block_aisle_every: "Aisle Every N Seats (0 for none)",
+    field_block_aisle_width: "Aisle Width",
+    field_block_row_gap: "Empty Rows Between Rows",
+    field_block_template: "Seat Names, e.g. {row:A}-{col}",
+    hslct_block_tables: "Tables",
+    no_tables: "No Tables",
+    table_wall: "Tables as Walls",
+    table_custom: "Tables as Custom Cells",
+    btn_insert_seat_block: "Insert Seat Block",
     locked_cells_warning: "Some selected cells are locked and cannot be edited.",
     background: "Background",
     border: "Border",
 };
 
+export const PDF_LABELS: Record<string, string> = {
+    seat_index_title: "Seat index",
+    seat: "Seat",
+    reservation: "Reserved by",
+    page: "Page",
+};
+
 export const CELL_STYLE_GROUPS = [
     {
         label: "text",
@@ -137,6 +265,36 @@ export const CELL_STYLE_INPUT_TYPES: Record<string, string> = {
 
 export const CELL_STYLE_KEYS = Object.keys(CELL_STYLE_INPUT_TYPES);
 
+export const CELL_TYPES: CellType[] = ["seat", "aisle", "wall", "door", "custom"];
+// Attributes of a cell that a changeAttribute operation may change
+export const CELL_ATTRIBUTES: (keyof PureCell)[] = ["id", "name", "type", "styleOverride"];
+
+// Strings accepted by the layout format in place of a number of null cells, and of a number style value
+export const NULL_CELL_COUNT_PATTERN = "^[0-9]+$";
+export const NUMERIC_STRING_PATTERN = "^\\s*-?(\\d+\\.?\\d*|\\.\\d+)([eE][-+]?\\d+)?\\s*$";
+
+export const CELL_STYLE_VALUE_TYPES: Record<keyof CellStyleOverridePure, "string" | "number" | "boolean"> = {
+    backgroundColor: "string",
+    borderColor: "string",
+    borderWidth: "number",
+    borderTop: "boolean",
+    borderBottom: "boolean",
+    borderLeft: "boolean",
+    borderRight: "boolean",
+    text: "string",
+    textFont: "string",
+    textWeight: "string",
+    textSize: "number",
+    textColor: "string",
+    textOpacity: "number",
+    textTranslateX: "number",
+    textTranslateY: "number",
+    textStrokeColor: "string",
+    textStrokeLineWidth: "number",
+    textRotationDegrees: "number",
+    opacity: "number",
+}
+
 export enum MouseButtons {
     LEFT = 0,
     MIDDLE = 1,
@@ -0,0 +1,125 @@
+import type { MapLayoutModel } from "./MapLayoutModel";
+import type { DrawingTool } from "./types";
+
+/**
+ * Returns the cells on a straight line between two cells, both included, using Bresenham's algorithm.
+ */
+export function getLineCells(layout: MapLayoutModel, from: number, to: number): number[] {
+    let [x0, y0] = layout.getCoordinatesOfCell(from);
+    const [x1, y1] = layout.getCoordinatesOfCell(to);
+
+    if (x0 === null || y0 === null || x1 === null || y1 === null) {
+        return [];
+    }
+
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const stepX = x0 < x1 ? 1 : -1;
+    const stepY = y0 < y1 ? 1 : -1;
+
+    const cells: number[] = [];
+    let error = dx + dy;
+
+    while (true) {
+        cells.push(layout.coordinatesToCellIndex(x0, y0));
+
+        if (x0 === x1 && y0 === y1) {
+            return cells;
+        }
+
+        if (2 * error >= dy) {
+            error += dy;
+            x0 += stepX;
+        }
+
+        if (2 * error <= dx) {
+            error += dx;
+            y0 += stepY;
+        }
+    }
+}
+
+/**
+ * Returns the cells of the rectangle with two cells as opposite corners, only its edge when not filled.
+ */
+export function getRectangleCells(layout: MapLayoutModel, from: number, to: number, filled: boolean): number[] {
+    const bounds = layout.getSelectionCellBoundsAsCoordinates([from, to]);
+
+    if (bounds[0] === null) {
+        return [];
+    }
+
+    const [minX, maxX, minY, maxY] = bounds;
+
+    const cells: number[] = [];
+
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            if (filled || x === minX || x === maxX || y === minY || y === maxY) {
+                cells.push(layout.coordinatesToCellIndex(x, y));
+            }
+        }
+    }
+
+    return cells;
+}
+
+/**
+ * Returns the cell and every cell of the same type reachable from it through horizontal or vertical neighbours.
+ * Empty cells count as a type of their own.
+ */
+export function getFloodFillCells(layout: MapLayoutModel, start: number): number[] {
+    const { cells, x: columns } = layout.mapLayout;
+
+    if (cells[start] === undefined) {
+        return [];
+    }
+
+    const type = cells[start]?.type ?? null;
+    const filled = new Set([start]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+        const cellIndex = queue.pop() as number;
+        const x = cellIndex % columns;
+
+        const neighbours = [cellIndex - columns, cellIndex + columns];
+
+        if (x > 0) {
+            neighbours.push(cellIndex - 1);
+        }
+
+        if (x < columns - 1) {
+            neighbours.push(cellIndex + 1);
+        }
+
+        for (const neighbour of neighbours) {
+            if (cells[neighbour] !== undefined && (cells[neighbour]?.type ?? null) === type && !filled.has(neighbour)) {
+                filled.add(neighbour);
+                queue.push(neighbour);
+            }
+        }
+    }
+
+    return [...filled];
+}
+
+/**
+ * Returns the cells a tool dragged from one cell to another covers. The fill covers the area it started in,
+ * the brush just the cell it was dragged to.
+ */
+export function getToolCells(layout: MapLayoutModel, tool: DrawingTool, from: number, to: number): number[] {
+    if (tool === "rectangle" || tool === "outline") {
+        return getRectangleCells(layout, from, to, tool === "rectangle");
+    }
+
+    if (tool === "line") {
+        return getLineCells(layout, from, to);
+    }
+
+    if (tool === "fill") {
+        return getFloodFillCells(layout, from);
+    }
+
+    return [to];
+}
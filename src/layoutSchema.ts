@@ -0,0 +1,106 @@
+import { CELL_STYLE_VALUE_TYPES, CELL_TYPES, CURRENT_LAYOUT_VERSION, NULL_CELL_COUNT_PATTERN, NUMERIC_STRING_PATTERN, ZOOM_LEVELS } from "./data";
+
+// Numbers and booleans written as strings, or left blank, are accepted and converted when the layout is migrated
+const styleValueSchemas = {
+    string: { type: "string" },
+    number: { anyOf: [{ type: "number" }, { type: "string", pattern: NUMERIC_STRING_PATTERN }, { type: "string", pattern: "^\\s*$" }] },
+    boolean: { anyOf: [{ type: "boolean" }, { enum: ["true", "false"] }, { type: "string", pattern: "^\\s*$" }] }
+};
+
+const cellStyleOverridePureSchema = {
+    type: "object",
+    properties: Object.fromEntries(
+        Object.entries(CELL_STYLE_VALUE_TYPES).map(([key, valueType]) => [key, styleValueSchemas[valueType]])
+    )
+};
+
+const cellStyleOverrideSchema = {
+    type: "object",
+    properties: {
+        ...cellStyleOverridePureSchema.properties,
+        hoverOverride: { $ref: "#/$defs/CellStyleOverridePure" },
+        selectedOverride: { $ref: "#/$defs/CellStyleOverridePure" }
+    }
+};
+
+/**
+ * JSON Schema (draft 2020-12) describing MapLayoutInput.
+ * validateLayout() checks the same rules and also the ones a schema can't express, like the total cell count.
+ * Both accept unknown properties and numbers or booleans written as strings, validateLayout warns about them.
+ */
+export const MAP_LAYOUT_INPUT_SCHEMA = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "MapLayoutInput",
+    type: "object",
+    required: ["x", "y", "cells"],
+    properties: {
+        version: { type: "integer", minimum: 0, maximum: CURRENT_LAYOUT_VERSION },
+        x: { type: "integer", minimum: 1 },
+        y: { type: "integer", minimum: 1 },
+        cells: {
+            type: "array",
+            items: {
+                oneOf: [
+                    { type: "null" },
+                    {
+                        description: "Amount of consecutive null cells",
+                        type: "string",
+                        pattern: NULL_CELL_COUNT_PATTERN
+                    },
+                    { $ref: "#/$defs/Cell" }
+                ]
+            }
+        },
+        sections: {
+            type: "array",
+            items: { $ref: "#/$defs/MapSection" }
+        },
+        globalOverride: {
+            type: "object",
+            properties: {
+                backgroundColor: { type: "string" },
+                zoomLevel: { enum: ZOOM_LEVELS },
+                cellStyleOverride: {
+                    type: "object",
+                    properties: Object.fromEntries(CELL_TYPES.map(type => [type, { $ref: "#/$defs/CellStyleOverride" }]))
+                }
+            }
+        }
+    },
+    $defs: {
+        Cell: {
+            type: "object",
+            required: ["type"],
+            properties: {
+                id: { type: "string", minLength: 1, description: "Unique within the layout, checked by validateLayout" },
+                name: { type: "string" },
+                type: { enum: CELL_TYPES },
+                styleOverride: { $ref: "#/$defs/CellStyleOverride" }
+            }
+        },
+        MapSection: {
+            type: "object",
+            required: ["id", "name", "rows"],
+            properties: {
+                id: { type: "string", minLength: 1, description: "Unique among sections and rows, checked by validateLayout" },
+                name: { type: "string" },
+                rows: { type: "array", items: { $ref: "#/$defs/MapRow" } }
+            }
+        },
+        MapRow: {
+            type: "object",
+            required: ["id", "name", "cells"],
+            properties: {
+                id: { type: "string", minLength: 1 },
+                name: { type: "string" },
+                cells: {
+                    description: "Ids of the cells in the row, a cell is in at most one row",
+                    type: "array",
+                    items: { type: "string" }
+                }
+            }
+        },
+        CellStyleOverride: cellStyleOverrideSchema,
+        CellStyleOverridePure: cellStyleOverridePureSchema
+    }
+} as const;
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { CURRENT_LAYOUT_VERSION } from "./data";
+import { MapLayoutModel } from "./MapLayoutModel";
+import { migrateLayout } from "./migrations";
+import type { MapLayoutInput } from "./types";
+
+// A version 0 layout, saved when the editor stored style values as the strings typed into its inputs
+function createOldLayout() {
+    return {
+        x: 2,
+        y: 1,
+        cells: [
+            { type: "seat", styleOverride: { borderWidth: "2", borderTop: "false", textColor: "red", hoverOverride: { textSize: "12" } } },
+            "1"
+        ],
+        globalOverride: {
+            cellStyleOverride: { wall: { borderWidth: " ", borderLeft: "true" } }
+        }
+    } as unknown as MapLayoutInput;
+}
+
+describe("migrateLayout", () => {
+    test("turns string style values from version 0 into numbers and booleans", () => {
+        const layout = migrateLayout(createOldLayout());
+
+        expect(layout.version).toBe(CURRENT_LAYOUT_VERSION);
+        expect(layout.cells[0]).toEqual({ type: "seat", styleOverride: { borderWidth: 2, borderTop: false, textColor: "red", hoverOverride: { textSize: 12 } } });
+        expect(layout.globalOverride?.cellStyleOverride?.wall).toEqual({ borderLeft: true });
+    });
+
+    test("leaves the input untouched", () => {
+        const input = createOldLayout();
+        const copy = structuredClone(input);
+
+        migrateLayout(input);
+
+        expect(input).toEqual(copy);
+    });
+
+    test("returns current layouts as they are", () => {
+        const input: MapLayoutInput = { version: CURRENT_LAYOUT_VERSION, x: 1, y: 1, cells: [null] };
+
+        expect(migrateLayout(input)).toBe(input);
+    });
+
+    test("throws for versions newer than the supported one", () => {
+        expect(() => migrateLayout({ version: CURRENT_LAYOUT_VERSION + 1, x: 1, y: 1, cells: [null] })).toThrow();
+    });
+});
+
+describe("MapLayoutModel", () => {
+    test("reports an unsupported version like any other invalid layout", () => {
+        expect(() => new MapLayoutModel({ version: CURRENT_LAYOUT_VERSION + 1, x: 1, y: 1, cells: [null] })).toThrow(/^Invalid map layout: \/version: /);
+    });
+
+    test("loads migrated layouts", () => {
+        const model = new MapLayoutModel(createOldLayout());
+
+        expect(model.cells).toHaveLength(2);
+        expect(model.getCell(0)?.styleOverride?.borderWidth).toBe(2);
+    });
+});
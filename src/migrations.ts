@@ -0,0 +1,118 @@
+import { CELL_STYLE_VALUE_TYPES, CURRENT_LAYOUT_VERSION } from "./data";
+import type { CellStyleOverridePure, MapLayoutInput } from "./types";
+import { isObject } from "./util";
+
+/**
+ * Upgrades a layout from the version it is registered for to the next version.
+ * Receives a copy of the layout, so it may be mutated freely. Nothing about its shape is known until it's validated.
+ */
+export type LayoutMigration = (layout: Record<string, unknown>) => Record<string, unknown>;
+
+const LAYOUT_MIGRATIONS: Record<number, LayoutMigration> = {};
+
+export function registerLayoutMigration(fromVersion: number, migration: LayoutMigration) {
+    if (LAYOUT_MIGRATIONS[fromVersion] !== undefined) {
+        throw new Error(`A layout migration from version ${fromVersion} is already registered.`);
+    }
+
+    LAYOUT_MIGRATIONS[fromVersion] = migration;
+}
+
+/**
+ * Runs every registered migration from the layout's version up to CURRENT_LAYOUT_VERSION.
+ * The input is never mutated. Throws if the version is unsupported or a migration fails.
+ */
+export function migrateLayout(input: MapLayoutInput): MapLayoutInput {
+    if (typeof input !== "object" || input === null) {
+        return input;
+    }
+
+    let version = input.version ?? 0;
+
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`Invalid layout version: ${version}`);
+    }
+
+    if (version > CURRENT_LAYOUT_VERSION) {
+        throw new Error(`Layout version ${version} is newer than the supported version ${CURRENT_LAYOUT_VERSION}.`);
+    }
+
+    if (version === CURRENT_LAYOUT_VERSION) {
+        return input;
+    }
+
+    let layout: Record<string, unknown> = JSON.parse(JSON.stringify(input));
+
+    while (version < CURRENT_LAYOUT_VERSION) {
+        const migration = LAYOUT_MIGRATIONS[version];
+
+        if (migration === undefined) {
+            throw new Error(`No layout migration registered from version ${version}.`);
+        }
+
+        try {
+            layout = migration(layout);
+        } catch (error) {
+            throw new Error(`Layout migration from version ${version} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!isObject(layout)) {
+            throw new Error(`Layout migration from version ${version} didn't return a layout.`);
+        }
+
+        version++;
+    }
+
+    layout.version = CURRENT_LAYOUT_VERSION;
+
+    // Whatever the migrations produced is checked by validateLayout before it's used
+    return layout as MapLayoutInput;
+}
+
+function normalizeStyleValues(style: unknown) {
+    if (!isObject(style)) {
+        return;
+    }
+
+    for (const key in style) {
+        if (key === "hoverOverride" || key === "selectedOverride") {
+            normalizeStyleValues(style[key]);
+
+            continue;
+        }
+
+        const expectedType = CELL_STYLE_VALUE_TYPES[key as keyof CellStyleOverridePure];
+        const value = style[key];
+
+        if (typeof value !== "string" || expectedType === undefined || expectedType === "string") {
+            continue;
+        }
+
+        if (value.trim() === "") {
+            delete style[key];
+        } else if (expectedType === "number" && !isNaN(Number(value))) {
+            style[key] = Number(value);
+        } else if (expectedType === "boolean" && (value === "true" || value === "false")) {
+            style[key] = value === "true";
+        }
+    }
+}
+
+// Version 0 -> 1: the editor used to store number and boolean style values as the strings typed into its inputs
+registerLayoutMigration(0, layout => {
+    if (Array.isArray(layout.cells)) {
+        for (const cell of layout.cells) {
+            if (isObject(cell)) {
+                normalizeStyleValues(cell.styleOverride);
+            }
+        }
+    }
+
+    if (isObject(layout.globalOverride) && isObject(layout.globalOverride.cellStyleOverride)) {
+        for (const style of Object.values(layout.globalOverride.cellStyleOverride)) {
+            normalizeStyleValues(style);
+        }
+    }
+
+    return layout;
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { renderInstructionsToPDF, type PDFSeatIndexRow } from "./pdf";
+import type { MapRenderInstruction } from "./types";
+
+function render(instructions: MapRenderInstruction[], seatIndex: PDFSeatIndexRow[] = [{ name: "A1", reservation: "Åsa" }]) {
+    return renderInstructionsToPDF([instructions], 100, 50, 1, "#fff", seatIndex);
+}
+
+describe("renderInstructionsToPDF", () => {
+    test("writes a document whose cross-reference table points at every object", () => {
+        const { document, warnings } = render([{ type: "fillrect", x: 0, y: 0, width: 10, height: 10, color: "#ff0000", opacity: 1 }]);
+
+        expect(warnings).toEqual([]);
+        expect(document.startsWith("%PDF-1.4\n")).toBe(true);
+        expect(document.endsWith("%%EOF\n")).toBe(true);
+
+        const offsets = [...document.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => parseInt(match[1] as string, 10));
+
+        expect(offsets.length).toBeGreaterThan(0);
+        offsets.forEach((offset, i) => expect(document.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+
+        const startxref = parseInt(document.match(/startxref\n(\d+)/)?.[1] as string, 10);
+
+        expect(document.slice(startxref).startsWith("xref")).toBe(true);
+    });
+
+    test("draws colors and encodes seat index text", () => {
+        const { document } = render([{ type: "fillrect", x: 0, y: 0, width: 10, height: 10, color: "rgba(0, 0, 255, 0.5)", opacity: 1 }]);
+
+        expect(document).toContain("0 0 1 rg");
+        expect(document).toContain("/ca 0.5");
+        expect(document).toContain("(A1) Tj");
+        expect(document).toContain("(\\305sa) Tj");
+    });
+
+    test("warns once about colors it can't draw", () => {
+        const instruction: MapRenderInstruction = { type: "fillrect", x: 0, y: 0, width: 10, height: 10, color: "tomato", opacity: 1 };
+        const { warnings } = render([instruction, instruction]);
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain("tomato");
+    });
+
+    test("warns about paths it leaves out", () => {
+        const { document, warnings } = render([{ type: "path", x: 0, y: 0, path: "M0 0 A 5 5 0 0 1 10 10", color: "#000", opacity: 1 }]);
+
+        expect(warnings).toHaveLength(1);
+        expect(document).not.toContain(" cm\n0 0 m");
+    });
+
+    test("splits a long seat index over several pages", () => {
+        const seatIndex = Array.from({ length: 100 }, (_, i) => ({ name: `Seat ${i}` }));
+        const { document } = render([], seatIndex);
+
+        expect(document).toMatch(/\/Count ([3-9]|\d{2,}) >>/);
+    });
+});
@@ -0,0 +1,410 @@
+import { PDF_LABELS } from "./data";
+import type { MapRenderInstruction } from "./types";
+
+export type PDFSeatIndexRow = {
+    name: string;
+    reservation?: string;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const PAGE_MARGIN = 36;
+
+// Path instructions are drawn at this scale relative to the zoom, see Map.drawInstructions
+const PATH_SCALE = 0.12;
+
+const INDEX_TITLE_SIZE = 16;
+const INDEX_FONT_SIZE = 10;
+const INDEX_ROW_HEIGHT = 16;
+const INDEX_RESERVATION_COLUMN = 180;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRA: Record<string, number> = {
+    "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+    "‰": 0x89, "Š": 0x8A, "‹": 0x8B, "Œ": 0x8C, "Ž": 0x8E, "‘": 0x91, "’": 0x92, "“": 0x93,
+    "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9A, "›": 0x9B,
+    "œ": 0x9C, "ž": 0x9E, "Ÿ": 0x9F
+};
+
+function num(value: number) {
+    return `${+value.toFixed(3)}`;
+}
+
+/**
+ * Encodes text as a PDF string literal in WinAnsiEncoding, characters without a code become "?".
+ */
+function pdfString(text: string) {
+    let result = "";
+
+    for (const char of text) {
+        const code = char.charCodeAt(0);
+
+        if (char === "(" || char === ")" || char === "\\") {
+            result += `\\${char}`;
+        } else if (code >= 32 && code < 127) {
+            result += char;
+        } else if ((code >= 160 && code <= 255) || WIN_ANSI_EXTRA[char] !== undefined) {
+            result += `\\${(WIN_ANSI_EXTRA[char] ?? code).toString(8).padStart(3, "0")}`;
+        } else {
+            result += "?";
+        }
+    }
+
+    return `(${result})`;
+}
+
+/**
+ * Parses "#rgb", "#rgba", "#rrggbb", "#rrggbbaa", "rgb()" and "rgba()" colors into 0-1 channels.
+ */
+function parseColor(color: string): [number, number, number, number] | null {
+    const hex = color.trim().match(/^#([0-9a-f]{3,8})$/i);
+
+    if (hex) {
+        let digits = hex[1] as string;
+
+        if (digits.length === 3 || digits.length === 4) {
+            digits = [...digits].map(digit => digit + digit).join("");
+        }
+
+        if (digits.length !== 6 && digits.length !== 8) {
+            return null;
+        }
+
+        const [r, g, b, a] = [0, 2, 4, 6].map(i => parseInt(digits.slice(i, i + 2) || "ff", 16) / 255) as [number, number, number, number];
+
+        return [r, g, b, a];
+    }
+
+    const rgb = color.trim().match(/^rgba?\(([^)]*)\)$/i);
+
+    if (rgb) {
+        const parts = (rgb[1] as string).split(/[\s,\/]+/).filter(part => part !== "").map(part => parseFloat(part));
+
+        if (parts.length < 3 || parts.some(part => isNaN(part))) {
+            return null;
+        }
+
+        const [r, g, b, a] = parts as [number, number, number, number | undefined];
+
+        return [r / 255, g / 255, b / 255, a ?? 1];
+    }
+
+    return null;
+}
+
+/**
+ * Converts the absolute and relative M, L, H, V, C and Z commands of an SVG path into PDF path operators.
+ */
+function svgPathToPDF(path: string): string | null {
+    const tokens = path.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? [];
+    const operators: string[] = [];
+
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let command = "";
+    let i = 0;
+
+    const next = () => parseFloat(tokens[i++] as string);
+
+    while (i < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[i] as string)) {
+            command = tokens[i++] as string;
+        }
+
+        const relative = command === command.toLowerCase();
+        const offsetX = relative ? x : 0;
+        const offsetY = relative ? y : 0;
+
+        switch (command.toUpperCase()) {
+            case "M":
+                x = next() + offsetX;
+                y = next() + offsetY;
+                startX = x;
+                startY = y;
+                operators.push(`${num(x)} ${num(y)} m`);
+
+                // Coordinates following a move are implicit line commands
+                command = relative ? "l" : "L";
+                break;
+            case "L":
+                x = next() + offsetX;
+                y = next() + offsetY;
+                operators.push(`${num(x)} ${num(y)} l`);
+                break;
+            case "H":
+                x = next() + offsetX;
+                operators.push(`${num(x)} ${num(y)} l`);
+                break;
+            case "V":
+                y = next() + offsetY;
+                operators.push(`${num(x)} ${num(y)} l`);
+                break;
+            case "C": {
+                const x1 = next() + offsetX;
+                const y1 = next() + offsetY;
+                const x2 = next() + offsetX;
+                const y2 = next() + offsetY;
+
+                x = next() + offsetX;
+                y = next() + offsetY;
+                operators.push(`${num(x1)} ${num(y1)} ${num(x2)} ${num(y2)} ${num(x)} ${num(y)} c`);
+                break;
+            }
+            case "Z":
+                x = startX;
+                y = startY;
+                operators.push("h");
+                break;
+            default:
+                return null;
+        }
+
+        if (operators.length > 0 && operators[operators.length - 1]?.includes("NaN")) {
+            return null;
+        }
+    }
+
+    return operators.join("\n");
+}
+
+/**
+ * Collects the content stream operators of one page along with the opacities it uses.
+ * Anything that can't be drawn as asked is added to the shared warnings.
+ */
+class PDFPage {
+    width: number;
+    height: number;
+    operators: string[] = [];
+    opacities: number[];
+    warnings: string[];
+    resolveColor: (color: string) => string;
+
+    constructor(width: number, height: number, opacities: number[], warnings: string[], resolveColor: (color: string) => string) {
+        this.width = width;
+        this.height = height;
+        this.opacities = opacities;
+        this.warnings = warnings;
+        this.resolveColor = resolveColor;
+    }
+
+    private warn(warning: string) {
+        if (!this.warnings.includes(warning)) {
+            this.warnings.push(warning);
+        }
+    }
+
+    /**
+     * Sets fill or stroke color and the combined opacity of the color and instruction. Unsupported colors become black.
+     */
+    setColor(color: string, opacity: number, stroke: boolean) {
+        const parsed = parseColor(color) ?? parseColor(this.resolveColor(color));
+
+        if (parsed === null) {
+            this.warn(`Unsupported color "${color}" was drawn black.`);
+        }
+
+        const [r, g, b, a] = parsed ?? [0, 0, 0, 1];
+        const alpha = Math.round(Math.max(0, Math.min(1, a * opacity)) * 1000) / 1000;
+
+        let stateIndex = this.opacities.indexOf(alpha);
+
+        if (stateIndex === -1) {
+            stateIndex = this.opacities.push(alpha) - 1;
+        }
+
+        this.operators.push(`/GS${stateIndex} gs`, `${num(r)} ${num(g)} ${num(b)} ${stroke ? "RG" : "rg"}`);
+    }
+
+    /**
+     * Draws text with its baseline at y, in a coordinate space where y points down.
+     */
+    text(text: string, x: number, y: number, size: number, bold: boolean, strokeWidth?: number) {
+        this.operators.push(
+            "BT",
+            `/${bold ? "F2" : "F1"} ${num(size)} Tf`,
+            strokeWidth === undefined ? "0 Tr" : `1 Tr ${num(strokeWidth)} w`,
+            `1 0 0 -1 ${num(x)} ${num(y)} Tm`,
+            `${pdfString(text)} Tj`,
+            "ET"
+        );
+    }
+
+    instruction(instruction: MapRenderInstruction, zoom: number) {
+        this.operators.push("q");
+
+        if (instruction.type === "fillrect") {
+            this.setColor(instruction.color, instruction.opacity, false);
+            this.operators.push(`${num(instruction.x)} ${num(instruction.y)} ${num(instruction.width)} ${num(instruction.height)} re f`);
+        } else if (instruction.type === "strokerect") {
+            this.setColor(instruction.color, instruction.opacity, true);
+            this.operators.push(`${num(instruction.lineWidth)} w`, `${num(instruction.x)} ${num(instruction.y)} ${num(instruction.width)} ${num(instruction.height)} re S`);
+        } else if (instruction.type === "line") {
+            this.setColor(instruction.color, instruction.opacity, true);
+            this.operators.push(`${num(instruction.lineWidth)} w`, `${num(instruction.x)} ${num(instruction.y)} m ${num(instruction.xTo)} ${num(instruction.yTo)} l S`);
+        } else if (instruction.type === "path") {
+            const path = svgPathToPDF(instruction.path);
+
+            if (path === null) {
+                this.warn(`Unsupported SVG path "${instruction.path}" was left out.`);
+            } else {
+                const scale = zoom * PATH_SCALE;
+
+                this.setColor(instruction.color, instruction.opacity, false);
+                this.operators.push(`${num(scale)} 0 0 ${num(scale)} ${num(instruction.x)} ${num(instruction.y)} cm`, path, "f");
+            }
+        } else {
+            if (instruction.rotationDegrees !== 0) {
+                // Canvas rotates text around the middle of its measured box, see Map.drawInstructions
+                const centerX = instruction.x + instruction.dimensions[0] / 2;
+                const centerY = instruction.y + instruction.dimensions[1] / 2;
+                const radians = (instruction.rotationDegrees * Math.PI) / 180;
+                const cos = Math.cos(radians);
+                const sin = Math.sin(radians);
+
+                this.operators.push(`${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(centerX - cos * centerX + sin * centerY)} ${num(centerY - sin * centerX - cos * centerY)} cm`);
+            }
+
+            const size = parseFloat(instruction.font.match(/([\d.]+)px/)?.[1] ?? "10");
+            const bold = /bold|[6-9]00/.test(instruction.font);
+
+            if (instruction.type === "text") {
+                this.setColor(instruction.color, instruction.opacity, false);
+                this.text(instruction.text, instruction.x, instruction.y, size, bold);
+            } else {
+                this.setColor(instruction.color, instruction.opacity, true);
+                this.text(instruction.text, instruction.x, instruction.y, size, bold, instruction.lineWidth);
+            }
+        }
+
+        this.operators.push("Q");
+    }
+}
+
+/**
+ * Shortens text with an ellipsis so it fits the width, using an average Helvetica character width.
+ */
+function fitText(text: string, width: number, size: number) {
+    const maxLength = Math.floor(width / (size * 0.55));
+
+    return text.length > maxLength ? `${text.slice(0, Math.max(0, maxLength - 1))}…` : text;
+}
+
+function serializeDocument(pages: PDFPage[], opacities: number[]): string {
+    const objects: string[] = [];
+
+    const fonts = "<< /F1 3 0 R /F2 4 0 R >>";
+    const graphicsStates = `<< ${opacities.map((alpha, i) => `/GS${i} << /ca ${num(alpha)} /CA ${num(alpha)} >>`).join(" ")} >>`;
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    pages.forEach((page, i) => {
+        const pageObject = 5 + i * 2;
+        const content = page.operators.join("\n");
+
+        objects[pageObject] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font ${fonts} /ExtGState ${graphicsStates} >> /Contents ${pageObject + 1} 0 R >>`;
+        objects[pageObject + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Everything written is ASCII, so string length equals byte offset
+    let document = "%PDF-1.4\n";
+    const offsets: number[] = [];
+
+    for (let i = 1; i < objects.length; i++) {
+        offsets[i] = document.length;
+        document += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+    }
+
+    const xrefOffset = document.length;
+
+    document += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+
+    for (let i = 1; i < objects.length; i++) {
+        document += `${String(offsets[i]).padStart(10, "0")} 00000 n \n`;
+    }
+
+    document += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return document;
+}
+
+/**
+ * Serializes layered render instructions into a PDF document. The first page holds the map scaled to fit an A4 page,
+ * followed by as many pages as needed for the seat index.
+ * resolveColor turns colors the writer can't parse, like named colors, into hex or rgb() form.
+ * Warnings describe colors and paths that couldn't be drawn as asked, each one once.
+ */
+export function renderInstructionsToPDF(layers: MapRenderInstruction[][], width: number, height: number, zoom: number, backgroundColor: string | undefined, seatIndex: PDFSeatIndexRow[], resolveColor: (color: string) => string = color => color): { document: string, warnings: string[] } {
+    const opacities: number[] = [];
+    const warnings: string[] = [];
+    const pages: PDFPage[] = [];
+
+    const landscape = width > height;
+    const mapPage = new PDFPage(landscape ? PAGE_HEIGHT : PAGE_WIDTH, landscape ? PAGE_WIDTH : PAGE_HEIGHT, opacities, warnings, resolveColor);
+    const scale = Math.min((mapPage.width - PAGE_MARGIN * 2) / width, (mapPage.height - PAGE_MARGIN * 2) / height);
+    const offsetX = (mapPage.width - width * scale) / 2;
+    const offsetY = (mapPage.height - height * scale) / 2;
+
+    // Flip the y axis so instructions can be drawn in canvas coordinates
+    mapPage.operators.push("q", `${num(scale)} 0 0 ${num(-scale)} ${num(offsetX)} ${num(mapPage.height - offsetY)} cm`, `0 0 ${num(width)} ${num(height)} re W n`);
+
+    if (backgroundColor) {
+        mapPage.operators.push("q");
+        mapPage.setColor(backgroundColor, 1, false);
+        mapPage.operators.push(`0 0 ${num(width)} ${num(height)} re f`, "Q");
+    }
+
+    for (const layer of layers) {
+        for (const instruction of layer) {
+            mapPage.instruction(instruction, zoom);
+        }
+    }
+
+    mapPage.operators.push("Q");
+    pages.push(mapPage);
+
+    const firstRowY = PAGE_MARGIN + INDEX_TITLE_SIZE + INDEX_ROW_HEIGHT * 2;
+    const rowsPerPage = Math.floor((PAGE_HEIGHT - PAGE_MARGIN * 2 - firstRowY) / INDEX_ROW_HEIGHT);
+    const indexPageCount = Math.max(1, Math.ceil(seatIndex.length / rowsPerPage));
+    const columnWidth = PAGE_WIDTH - PAGE_MARGIN - INDEX_RESERVATION_COLUMN - PAGE_MARGIN;
+
+    for (let pageNumber = 0; pageNumber < indexPageCount; pageNumber++) {
+        const page = new PDFPage(PAGE_WIDTH, PAGE_HEIGHT, opacities, warnings, resolveColor);
+        const rows = seatIndex.slice(pageNumber * rowsPerPage, (pageNumber + 1) * rowsPerPage);
+
+        page.operators.push(`1 0 0 -1 0 ${num(PAGE_HEIGHT)} cm`);
+        page.setColor("#000", 1, false);
+        page.text(PDF_LABELS.seat_index_title as string, PAGE_MARGIN, PAGE_MARGIN + INDEX_TITLE_SIZE, INDEX_TITLE_SIZE, true);
+
+        const headerY = PAGE_MARGIN + INDEX_TITLE_SIZE + INDEX_ROW_HEIGHT * 1.5;
+
+        page.text(PDF_LABELS.seat as string, PAGE_MARGIN, headerY, INDEX_FONT_SIZE, true);
+        page.text(PDF_LABELS.reservation as string, PAGE_MARGIN + INDEX_RESERVATION_COLUMN, headerY, INDEX_FONT_SIZE, true);
+
+        rows.forEach((row, i) => {
+            const y = firstRowY + INDEX_ROW_HEIGHT * (i + 1);
+
+            page.setColor("#000", 1, false);
+            page.text(fitText(row.name, INDEX_RESERVATION_COLUMN - 8, INDEX_FONT_SIZE), PAGE_MARGIN, y - 4, INDEX_FONT_SIZE, false);
+
+            if (row.reservation) {
+                page.text(fitText(row.reservation, columnWidth, INDEX_FONT_SIZE), PAGE_MARGIN + INDEX_RESERVATION_COLUMN, y - 4, INDEX_FONT_SIZE, false);
+            }
+
+            page.setColor("#ccc", 1, true);
+            page.operators.push("0.5 w", `${num(PAGE_MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - PAGE_MARGIN)} ${num(y)} l S`);
+        });
+
+        page.setColor("#666", 1, false);
+        page.text(`${PDF_LABELS.page} ${pageNumber + 1} / ${indexPageCount}`, PAGE_MARGIN, PAGE_HEIGHT - PAGE_MARGIN, INDEX_FONT_SIZE, false);
+
+        pages.push(page);
+    }
+
+    return { document: serializeDocument(pages, opacities), warnings };
+}
@@ -0,0 +1,99 @@
+import type { MapCellPatch } from "./types";
+
+/**
+ * Source of live seat updates for Map.connectSeatAvailability.
+ * connect() starts delivering patches to onPatch until disconnect() is called.
+ */
+export type SeatAvailabilityAdapter = {
+    connect(onPatch: (patch: MapCellPatch) => void): void;
+    disconnect(): void;
+}
+
+function parsePatch(data: string): MapCellPatch | null {
+    try {
+        const patch = JSON.parse(data);
+
+        if (typeof patch === "object" && patch !== null) {
+            return patch;
+        }
+    } catch (error) {
+        console.error("Could not parse seat availability update.", error);
+    }
+
+    return null;
+}
+
+/**
+ * Receives patches as JSON messages over WebSocket, reconnecting when the connection drops.
+ */
+export class WebSocketSeatAvailabilityAdapter implements SeatAvailabilityAdapter {
+    url: string;
+    reconnectDelay: number;
+
+    private socket: WebSocket | null = null;
+    private connected: boolean = false;
+
+    constructor(url: string, reconnectDelay: number = 2000) {
+        this.url = url;
+        this.reconnectDelay = reconnectDelay;
+    }
+
+    connect(onPatch: (patch: MapCellPatch) => void) {
+        this.connected = true;
+        this.socket = new WebSocket(this.url);
+
+        this.socket.addEventListener("message", event => {
+            const patch = parsePatch(event.data);
+
+            if (patch !== null) {
+                onPatch(patch);
+            }
+        });
+
+        this.socket.addEventListener("close", () => {
+            if (this.connected) {
+                setTimeout(() => {
+                    if (this.connected) {
+                        this.connect(onPatch);
+                    }
+                }, this.reconnectDelay);
+            }
+        });
+    }
+
+    disconnect() {
+        this.connected = false;
+        this.socket?.close();
+        this.socket = null;
+    }
+}
+
+/**
+ * Receives patches as JSON server-sent events, the browser reconnects by itself when the connection drops.
+ */
+export class SSESeatAvailabilityAdapter implements SeatAvailabilityAdapter {
+    url: string;
+
+    private source: EventSource | null = null;
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    connect(onPatch: (patch: MapCellPatch) => void) {
+        this.source = new EventSource(this.url);
+
+        this.source.addEventListener("message", event => {
+            const patch = parsePatch(event.data);
+
+            if (patch !== null) {
+                onPatch(patch);
+            }
+        });
+    }
+
+    disconnect() {
+        this.source?.close();
+        this.source = null;
+    }
+}
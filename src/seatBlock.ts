@@ -0,0 +1,70 @@
+import type { MapLayoutModel } from "./MapLayoutModel";
+import { formatSeatLabel } from "./sections";
+import type { PureCell, SeatBlockOptions } from "./types";
+
+export type SeatBlockCells = {
+    index: number[];
+    cells: PureCell[];
+}
+
+/**
+ * Returns the cells of a block of seats with its top left corner in the origin cell. Every row of seats is
+ * followed by a row of tables when tableType is set and then rowGap empty rows, aisles split the rows every
+ * aisleEvery seats. Seats are named with the template, {row} and {col} counting from 1.
+ * Cells that would end up outside the grid are left out, the empty cells of the gaps are not included.
+ * Rows and seats past the edges of the grid aren't generated, so large options don't take longer than the grid is big.
+ */
+export function getSeatBlockCells(layout: MapLayoutModel, origin: number, options: SeatBlockOptions): SeatBlockCells {
+    const [originX, originY] = layout.getCoordinatesOfCell(origin);
+
+    const block: SeatBlockCells = {
+        index: [],
+        cells: []
+    };
+
+    if (originX === null || originY === null) {
+        return block;
+    }
+
+    const rowHeight = 1 + (options.tableType === null ? 0 : 1) + options.rowGap;
+
+    const add = (x: number, y: number, cell: PureCell) => {
+        if (layout.isInBounds(x, y)) {
+            block.index.push(layout.coordinatesToCellIndex(x, y));
+            block.cells.push(cell);
+        }
+    };
+
+    for (let row = 0; row < options.rows; row++) {
+        const y = originY + row * rowHeight;
+        let x = originX;
+
+        if (y >= layout.mapLayout.y) {
+            break;
+        }
+
+        for (let seat = 0; seat < options.seatsPerRow && x < layout.mapLayout.x; seat++) {
+            if (seat > 0 && options.aisleEvery > 0 && seat % options.aisleEvery === 0) {
+                for (let i = 0; i < options.aisleWidth && x < layout.mapLayout.x; i++, x++) {
+                    add(x, y, { type: "aisle" });
+
+                    if (options.tableType !== null) {
+                        add(x, y + 1, { type: "aisle" });
+                    }
+                }
+            }
+
+            const name = formatSeatLabel(options.template, { section: null, row: null, rowNumber: row + 1, number: seat + 1 });
+
+            add(x, y, { type: "seat", name });
+
+            if (options.tableType !== null) {
+                add(x, y + 1, { type: options.tableType });
+            }
+
+            x++;
+        }
+    }
+
+    return block;
+}
@@ -0,0 +1,224 @@
+import type { MapLayoutModel } from "./MapLayoutModel";
+import type { MapSection, SeatLabelOptions } from "./types";
+import { generateId } from "./util";
+
+export type SeatLabelChanges = {
+    index: number[];
+    was: (string | undefined)[];
+    became: string[];
+}
+
+// Seats of one row by cell index, the names are null for the grid rows of seats that are in no row
+type SeatRow = {
+    section: string | null;
+    name: string | null;
+    cells: number[];
+}
+
+function withoutCells(sections: MapSection[], cellIds: string[]): MapSection[] {
+    const removed = new Set(cellIds);
+
+    return sections.map(section => ({
+        ...section,
+        rows: section.rows.map(row => ({ ...row, cells: row.cells.filter(id => !removed.has(id)) }))
+    }));
+}
+
+function withoutEmptyRows(sections: MapSection[]): MapSection[] {
+    return sections
+        .map(section => ({ ...section, rows: section.rows.filter(row => row.cells.length > 0) }))
+        .filter(section => section.rows.length > 0);
+}
+
+/**
+ * Returns the sections with the cells moved into the named row of the named section, both are created if needed.
+ * Rows and sections left without cells are removed. The given sections are not changed.
+ */
+export function assignCellsToRow(sections: MapSection[], cellIds: string[], sectionName: string, rowName: string): MapSection[] {
+    const updated = withoutCells(sections, cellIds);
+    const usedIds = new Set(sections.flatMap(section => [section.id, ...section.rows.map(row => row.id)]));
+
+    let section = updated.find(section => section.name === sectionName);
+
+    if (section === undefined) {
+        section = { id: generateId(usedIds), name: sectionName, rows: [] };
+        usedIds.add(section.id);
+        updated.push(section);
+    }
+
+    let row = section.rows.find(row => row.name === rowName);
+
+    if (row === undefined) {
+        row = { id: generateId(usedIds), name: rowName, cells: [] };
+        section.rows.push(row);
+    }
+
+    row.cells.push(...cellIds);
+
+    return withoutEmptyRows(updated);
+}
+
+/**
+ * Returns the sections without the cells, rows and sections left without cells are removed.
+ */
+export function removeCellsFromRows(sections: MapSection[], cellIds: string[]): MapSection[] {
+    return withoutEmptyRows(withoutCells(sections, cellIds));
+}
+
+// Every section is a group of rows, seats in no row form a last group with one row per grid row.
+// Only seats in cellIndexes are included when it is given
+function getSeatRowGroups(layout: MapLayoutModel, cellIndexes?: number[]): SeatRow[][] {
+    const { cells, sections, x } = layout.mapLayout;
+
+    const included = cellIndexes === undefined ? null : new Set(cellIndexes);
+    const indexById: Record<string, number> = {};
+    const grouped = new Set<number>();
+
+    const isIncludedSeat = (cellIndex: number) => cells[cellIndex]?.type === "seat" && (included === null || included.has(cellIndex));
+
+    cells.forEach((cell, cellIndex) => {
+        if (cell?.id !== undefined && isIncludedSeat(cellIndex)) {
+            indexById[cell.id] = cellIndex;
+        }
+    });
+
+    const groups = sections.map(section => section.rows.map(row => {
+        // Ids of cells that were removed, or are no longer seats, are skipped
+        const rowCells = row.cells.map(id => indexById[id]).filter(cellIndex => cellIndex !== undefined && !grouped.has(cellIndex)) as number[];
+
+        rowCells.forEach(cellIndex => grouped.add(cellIndex));
+
+        return { section: section.name, name: row.name, cells: rowCells };
+    }));
+
+    const ungrouped: Record<number, number[]> = {}; // grid row -> seats in it
+
+    cells.forEach((_, cellIndex) => {
+        if (isIncludedSeat(cellIndex) && !grouped.has(cellIndex)) {
+            (ungrouped[Math.floor(cellIndex / x)] ??= []).push(cellIndex);
+        }
+    });
+
+    return [...groups, Object.values(ungrouped).map(rowCells => ({ section: null, name: null, cells: rowCells }))]
+        .map(rows => rows.filter(row => row.cells.length > 0))
+        .filter(rows => rows.length > 0);
+}
+
+// Counts 1, 2, 3... as the letters from the given one on, past Z as AA, AB... like spreadsheet columns
+function toLetters(value: number, first: string) {
+    const base = first === first.toLowerCase() ? "a" : "A";
+    let n = value - 1 + first.charCodeAt(0) - base.charCodeAt(0);
+    let letters = "";
+
+    do {
+        letters = String.fromCharCode(base.charCodeAt(0) + (n % 26)) + letters;
+        n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+
+    return letters;
+}
+
+function formatCounter(value: number, format: string | undefined) {
+    if (format === undefined || format === "") {
+        return value.toString();
+    }
+
+    if (/^[A-Za-z]$/.test(format)) {
+        return toLetters(value, format);
+    }
+
+    return value.toString().padStart(format.length, "0");
+}
+
+/**
+ * Fills in a seat label template. {section} is the section name, {row} the row name and {col} the seat number.
+ * A format after a colon counts in letters from the given one, {row:A}, or pads with zeros, {col:02}.
+ * {row} with a format, or for seats in no row, is the position of the row in its section starting at 1.
+ * Unknown placeholders are kept as they are.
+ */
+export function formatSeatLabel(template: string, values: { section: string | null, row: string | null, rowNumber: number, number: number }) {
+    return template.replace(/\{(section|row|col)(?::([^}]*))?\}/g, (_, key: string, format?: string) => {
+        if (key === "section") {
+            return values.section ?? "";
+        }
+
+        if (key === "row") {
+            return values.row !== null && format === undefined ? values.row : formatCounter(values.rowNumber, format);
+        }
+
+        return formatCounter(values.number, format);
+    });
+}
+
+/**
+ * Returns false if the options count seats in letters, {col:A}, from a number below 1, which has no letters.
+ */
+export function isValidSeatLabelStart(options: SeatLabelOptions) {
+    return options.start >= 1 || !/\{col:[A-Za-z]\}/.test(options.template);
+}
+
+/**
+ * Returns the label of every seat, by cell index, when labelled with the given options. Rows are numbered from the
+ * topmost one down and seats from left to right by column. Without a template a label is the prefix, the row name
+ * and the number, e.g. "B-14". Only the seats in cellIndexes are labelled, and numbered, when it is given.
+ */
+export function getSeatLabels(layout: MapLayoutModel, options: SeatLabelOptions, cellIndexes?: number[]): Record<number, string> {
+    const { x } = layout.mapLayout;
+    const labels: Record<number, string> = {};
+
+    for (const rows of getSeatRowGroups(layout, cellIndexes)) {
+        rows.sort((a, b) => Math.min(...a.cells) - Math.min(...b.cells));
+
+        let number = options.start;
+
+        rows.forEach((row, rowIndex) => {
+            const ordered = [...row.cells].sort((a, b) => (a % x) - (b % x) || a - b);
+
+            if (options.direction === "rtl" || (options.direction === "serpentine" && rowIndex % 2 === 1)) {
+                ordered.reverse();
+            }
+
+            // Seats in no row get no row name in the default label, restarting would give several seats the same label
+            if (options.resetPerRow && (row.name !== null || options.template !== "")) {
+                number = options.start;
+            }
+
+            for (const cellIndex of ordered) {
+                const label = options.template === ""
+                    ? `${row.name === null ? "" : `${row.name}-`}${number}`
+                    : formatSeatLabel(options.template, { section: row.section, row: row.name, rowNumber: rowIndex + 1, number });
+
+                labels[cellIndex] = options.prefix + label;
+                number++;
+            }
+        });
+    }
+
+    return labels;
+}
+
+/**
+ * Returns the seats whose name changes when labelled with the given options, see getSeatLabels.
+ */
+export function getSeatLabelChanges(layout: MapLayoutModel, options: SeatLabelOptions, cellIndexes?: number[]): SeatLabelChanges {
+    const labels = getSeatLabels(layout, options, cellIndexes);
+
+    const changes: SeatLabelChanges = {
+        index: [],
+        was: [],
+        became: []
+    };
+
+    for (const key in labels) {
+        const cellIndex = Number(key);
+        const was = layout.mapLayout.cells[cellIndex]?.name;
+
+        if (was !== labels[cellIndex]) {
+            changes.index.push(cellIndex);
+            changes.was.push(was);
+            changes.became.push(labels[cellIndex] as string);
+        }
+    }
+
+    return changes;
+}
@@ -0,0 +1,83 @@
+import type { MapRenderInstruction } from "./types";
+
+// Path instructions are drawn at this scale relative to the zoom, see Map.drawInstructions
+const PATH_SCALE = 0.12;
+
+function escapeXML(value: string) {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function attributes(values: Record<string, string | number>) {
+    return Object.entries(values)
+        .map(([key, value]) => `${key}="${typeof value === "number" ? +value.toFixed(3) : escapeXML(value)}"`)
+        .join(" ");
+}
+
+function instructionToSVG(instruction: MapRenderInstruction, zoom: number): string {
+    const opacity = instruction.opacity;
+
+    if (instruction.type === "fillrect") {
+        return `<rect ${attributes({ x: instruction.x, y: instruction.y, width: instruction.width, height: instruction.height, fill: instruction.color, opacity })}/>`;
+    }
+
+    if (instruction.type === "strokerect") {
+        return `<rect ${attributes({ x: instruction.x, y: instruction.y, width: instruction.width, height: instruction.height, fill: "none", stroke: instruction.color, "stroke-width": instruction.lineWidth, opacity })}/>`;
+    }
+
+    if (instruction.type === "line") {
+        return `<line ${attributes({ x1: instruction.x, y1: instruction.y, x2: instruction.xTo, y2: instruction.yTo, stroke: instruction.color, "stroke-width": instruction.lineWidth, opacity })}/>`;
+    }
+
+    if (instruction.type === "path") {
+        return `<path ${attributes({ d: instruction.path, fill: instruction.color, opacity, transform: `translate(${instruction.x} ${instruction.y}) scale(${zoom * PATH_SCALE})` })}/>`;
+    }
+
+    const textAttributes: Record<string, string | number> = {
+        x: instruction.x,
+        y: instruction.y,
+        style: `font: ${instruction.font}`,
+        opacity
+    };
+
+    if (instruction.rotationDegrees !== 0) {
+        // Canvas rotates text around the middle of its measured box, see Map.drawInstructions
+        const centerX = instruction.x + instruction.dimensions[0] / 2;
+        const centerY = instruction.y + instruction.dimensions[1] / 2;
+
+        textAttributes.transform = `rotate(${instruction.rotationDegrees} ${centerX} ${centerY})`;
+    }
+
+    if (instruction.type === "text") {
+        textAttributes.fill = instruction.color;
+    } else {
+        textAttributes.fill = "none";
+        textAttributes.stroke = instruction.color;
+        textAttributes["stroke-width"] = instruction.lineWidth;
+    }
+
+    return `<text ${attributes(textAttributes)}>${escapeXML(instruction.text)}</text>`;
+}
+
+/**
+ * Serializes layered render instructions into a standalone SVG document.
+ */
+export function renderInstructionsToSVG(layers: MapRenderInstruction[][], width: number, height: number, zoom: number, backgroundColor?: string): string {
+    const elements: string[] = [];
+
+    if (backgroundColor) {
+        elements.push(`<rect ${attributes({ x: 0, y: 0, width, height, fill: backgroundColor })}/>`);
+    }
+
+    for (const layer of layers) {
+        for (const instruction of layer) {
+            elements.push(instructionToSVG(instruction, zoom));
+        }
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" ${attributes({ width, height, viewBox: `0 0 ${width} ${height}` })}>\n${elements.join("\n")}\n</svg>\n`;
+}
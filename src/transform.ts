@@ -0,0 +1,99 @@
+import type { Cell, CellStyleOverride, CellStyleOverridePure, CellTransform } from "./types";
+import { range } from "./util";
+
+const EDGES = ["borderTop", "borderRight", "borderBottom", "borderLeft"] as const;
+
+// The edge each of EDGES ends up as, by its position in EDGES
+const EDGE_DESTINATIONS: Record<CellTransform, number[]> = {
+    rotate90: [1, 2, 3, 0],
+    rotate180: [2, 3, 0, 1],
+    rotate270: [3, 0, 1, 2],
+    flipHorizontal: [0, 3, 2, 1],
+    flipVertical: [2, 1, 0, 3]
+};
+
+const ROTATION_DEGREES: Record<CellTransform, number> = {
+    rotate90: 90,
+    rotate180: 180,
+    rotate270: 270,
+    flipHorizontal: 0,
+    flipVertical: 0
+};
+
+// Flipped text is turned the other way instead of being mirrored, so it can still be read
+function transformDegrees(degrees: number, transform: CellTransform) {
+    const turned = transform === "flipHorizontal" || transform === "flipVertical" ? -degrees : degrees + ROTATION_DEGREES[transform];
+
+    return ((turned % 360) + 360) % 360;
+}
+
+function transformStyle<T extends CellStyleOverridePure>(style: T, transform: CellTransform): T {
+    const transformed = { ...style };
+
+    for (const edge of EDGES) {
+        delete transformed[edge];
+    }
+
+    EDGES.forEach((edge, i) => {
+        if (style[edge] !== undefined) {
+            transformed[EDGES[EDGE_DESTINATIONS[transform][i] as number] as typeof edge] = style[edge];
+        }
+    });
+
+    if (style.textRotationDegrees !== undefined) {
+        transformed.textRotationDegrees = transformDegrees(style.textRotationDegrees, transform);
+    }
+
+    return transformed;
+}
+
+/**
+ * Returns a copy of the cell that looks right when rotated or flipped, its borders are moved to the edges they
+ * end up on and its text is turned. Text without a rotation stays as it is.
+ */
+export function transformCell<T extends Cell | undefined>(cell: T, transform: CellTransform): T {
+    if (cell === null || cell === undefined || cell.styleOverride === undefined) {
+        return cell === null || cell === undefined ? cell : { ...cell };
+    }
+
+    const styleOverride: CellStyleOverride = transformStyle(cell.styleOverride, transform);
+
+    if (cell.styleOverride.hoverOverride !== undefined) {
+        styleOverride.hoverOverride = transformStyle(cell.styleOverride.hoverOverride, transform);
+    }
+
+    if (cell.styleOverride.selectedOverride !== undefined) {
+        styleOverride.selectedOverride = transformStyle(cell.styleOverride.selectedOverride, transform);
+    }
+
+    return { ...cell, styleOverride };
+}
+
+/**
+ * Returns the rows of a grid rotated clockwise or flipped. A rotation by 90 or 270 degrees swaps its width and height.
+ */
+export function transformGrid<T>(rows: T[][], transform: CellTransform): T[][] {
+    const height = rows.length;
+    const width = rows[0]?.length ?? 0;
+
+    const at = (x: number, y: number) => (rows[y] as T[])[x] as T;
+
+    if (transform === "rotate90" || transform === "rotate270") {
+        return range(0, width).map(y => range(0, height).map(x => transform === "rotate90" ? at(y, height - 1 - x) : at(width - 1 - y, x)));
+    }
+
+    return range(0, height).map(y => range(0, width).map(x => {
+        if (transform === "rotate180") {
+            return at(width - 1 - x, height - 1 - y);
+        }
+
+        return transform === "flipHorizontal" ? at(width - 1 - x, y) : at(x, height - 1 - y);
+    }));
+}
+
+/**
+ * Returns copied cells, as rows with undefined where nothing was copied, rotated or flipped. See transformCell.
+ */
+export function transformCells(rows: (Cell | undefined)[][], transform: CellTransform): (Cell | undefined)[][] {
+    return transformGrid(rows, transform).map(row => row.map(cell => transformCell(cell, transform)));
+}
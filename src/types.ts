@@ -1,9 +1,12 @@
 import { MouseButtons } from "./data";
+import type { BookingClient } from "./booking";
+import type { SerializedMapLayoutHistory } from "./MapLayoutHistory";
 import type { ValueOf } from "./util";
 
 export type CellType = "seat" | "aisle" | "wall" | "door" | "custom";
 
 export type PureCell = {
+    id?: string; // stays the same when the cell moves, generated for every cell in edit mode
     name?: string;
     type: CellType;
     styleOverride?: CellStyleOverride;
@@ -13,6 +16,45 @@ export type Cell = PureCell | null;
 
 export type CellState = "hover" | "selected" | "default";
 
+export type SeatState = "available" | "held" | "booked" | "blocked" | "mine";
+
+export type SeatStates = Record<number, SeatState>; // keyed by cell index, seats missing from the record are "available"
+
+export type OwnSeats = Record<number, "held" | "booked">; // seats this viewer holds or has booked, keyed by cell index
+
+// A row of seats, the cells are given by id so they stay in the row when moved
+export type MapRow = {
+    id: string;
+    name: string; // e.g. "B", used in hierarchical seat labels like "B-14"
+    cells: string[];
+}
+
+export type MapSection = {
+    id: string;
+    name: string;
+    rows: MapRow[];
+}
+
+export type SeatLabelDirection = "ltr" | "rtl" | "serpentine"; // serpentine alternates direction every row
+
+export type SeatLabelOptions = {
+    prefix: string; // put before every label
+    template: string; // e.g. "{section}{row:A}{col:02}", see formatSeatLabel. Empty gives labels like "B-14"
+    start: number; // number of the first seat
+    direction: SeatLabelDirection;
+    resetPerRow: boolean; // numbering starts over in every row instead of continuing through the section
+}
+
+export type SeatBlockOptions = {
+    rows: number;
+    seatsPerRow: number;
+    aisleEvery: number; // seats between aisles, 0 for no aisles
+    aisleWidth: number; // columns in an aisle
+    rowGap: number; // empty rows after every row of seats and its tables
+    tableType: CellType | null; // type of the row of cells below every row of seats, null for no tables
+    template: string; // seat names, see formatSeatLabel
+}
+
 export type CellStyleOverridePure = {
     backgroundColor?: string;
     borderColor?: string;
@@ -43,9 +85,11 @@ export type CellStyleOverride = CellStyleOverridePure & {
 export type PossibleZoomLevels = 0.8 | 1 | 1.2 | 1.5 | 2 | 3 | 4 | 5 | 6;
 
 export type MapLayoutInput = {
+    version?: number; // layouts without a version are treated as version 0 and migrated on load
     x: number;
     y: number;
     cells: (Cell | `${number}`)[]; // putting an Int will create the Ints amount of null cells
+    sections?: MapSection[];
     globalOverride?: {
         backgroundColor?: string;
         zoomLevel?: PossibleZoomLevels;
@@ -63,6 +107,7 @@ export type MapLayout = {
     x: number;
     y: number;
     cells: Cell[];
+    sections: MapSection[];
     globalOverride: {
         backgroundColor: string;
         zoomLevel: PossibleZoomLevels;
@@ -98,7 +143,8 @@ export type EditMenuState = {
     },
     selectedInput: string | null,
     selectedStyleState: CellState;
-    selectedType: CellType;
+    selectedType: CellType; // type of the selected cells, changed by selecting cells
+    paintType: CellType; // type the drawing tools paint, kept when cells are selected
     cellStyleChanges: CellStyleOverride;
     selectedCells: {
         readonly indexes: number[];
@@ -121,9 +167,17 @@ export type EditMenuElement = {
     value: keyof CellStyleOverridePure;
 } | {
     type: "label";
+    text?: string; // shown instead of the label's text, for text that isn't fixed
+} | {
+    type: "field"; // text input that isn't a cell style, like the options of the seat label generator
+    get: () => string;
+    set: (value: string) => void;
 } | {
     type: "hselect";
     options: string[];
+    // Set for selects that aren't a cell type or the style state
+    get?: () => string;
+    set?: (option: string) => void;
 } | {
     type: "group";
     elements: EditMenuElement[];
@@ -131,6 +185,59 @@ export type EditMenuElement = {
 
 export type MapMode = "view" | "edit" | "preview" | "no-interact";
 
+export type DrawingTool = "brush" | "rectangle" | "outline" | "line" | "fill"; // outline is a rectangle that isn't filled
+
+export type EditorTool = "select" | DrawingTool;
+
+export type CellTransform = "rotate90" | "rotate180" | "rotate270" | "flipHorizontal" | "flipVertical"; // rotations are clockwise
+
+export type SelectionRules = {
+    maxSelected: number;
+    requireAdjacent: boolean; // selected seats must form one group of horizontally or vertically neighbouring cells
+}
+
+export type AutosaveOptions = {
+    key: string; // storage key the snapshots are kept under, should identify the layout being edited
+    maxSnapshots: number;
+    storage?: Pick<Storage, "getItem" | "setItem">; // defaults to localStorage
+}
+
+export type AutosaveSnapshot = {
+    savedAt: number; // timestamp in milliseconds
+    layout: MapLayoutInput;
+    history?: SerializedMapLayoutHistory; // undo stack recorded for the layout, only kept in the newest snapshot
+}
+
+export type RemotePresence = {
+    clientId: string;
+    name: string;
+    color: string;
+    cursor: [number, number] | null; // position on the map in unzoomed pixels
+    selection: number[];
+}
+
+export type CollaborationOptions = {
+    name: string; // shown next to this editor's cursor for the others
+    reconnectDelay: number; // milliseconds
+    presenceInterval: number; // least milliseconds between cursor and selection updates
+}
+
+export type MapCellPatch = {
+    cells?: Record<number, Cell>; // replaces cells, by cell index
+    seatStates?: SeatStates; // "available" clears a seat's state
+    replaceSeatStates?: boolean; // seats missing from seatStates become available, for full snapshots
+}
+
+export type MapOptions = {
+    seatStates?: SeatStates;
+    seatStateStyles?: Partial<Record<SeatState, CellStyleOverridePure>>;
+    selection?: Partial<SelectionRules>;
+    historyDepth?: number; // amount of undo steps kept, default 100
+    history?: SerializedMapLayoutHistory; // undo stack from MapLayoutHistory.serialize, recorded for the given layout
+    autosave?: Partial<AutosaveOptions>; // snapshots the layout after every change in edit mode
+    booking?: BookingClient; // books seats for holdSelectedSeats, confirmBooking and releaseSeats in view mode
+}
+
 export type CollisionCallback<ref> = ((collision: Collision<ref>, buttons?: MouseButtons[]) => void);
 export type DragCallback = ((diffX: number, diffY: number, buttons: MouseButtons[]) => void);
 
@@ -191,6 +298,19 @@ export type MapRenderInstruction = {
         )
     )
 
+export type MapRenderLayers = [MapRenderInstruction[], MapRenderInstruction[], MapRenderInstruction[], MapRenderInstruction[]];
+
+export type MapRenderOptions = {
+    zoom: number;
+    cameraX: number; // map position drawn at the left edge, in unzoomed pixels
+    cameraY: number;
+    width: number; // size of the drawing surface, in pixels
+    height: number;
+    interactive: boolean;
+    includeGrid?: boolean; // draws the edit grid even when not interactive
+    cells?: number[]; // only builds these cells, the grid and overlays are built as usual
+}
+
 export type MergingInstruction1D = {
     direction: LineDirection,
     startX: number,
@@ -48,12 +48,47 @@ export function getHexFromCSSColor(color: string) {
     return "#" + rgbHex(rgb);
 }
 
+export function downloadBlob(blob: Blob, fileName: string) {
+    const a = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    a.href = url;
+    a.download = fileName;
+    a.click();
+
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 export function* chunks(arr: any[], n: number) {
   for (let i = 0; i < arr.length; i += n) {
     yield arr.slice(i, i + n);
   }
 }
 
+/**
+ * Returns a random id that isn't one of usedIds, for cells, sections and rows.
+ */
+export function generateId(usedIds: Set<string>) {
+    let id: string;
+
+    do {
+        id = Math.random().toString(36).slice(2, 10);
+    } while (id === "" || usedIds.has(id));
+
+    return id;
+}
+
+/**
+ * Returns the integers from start up to, but not including, end.
+ */
+export function range(start: number, end: number): number[] {
+    return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+}
+
 export function sortNumberArray(x: number, y: number) {
     return x - y;
-}
\ No newline at end of file
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { validateLayout } from "./validateLayout";
+
+const paths = (issues: { path: string }[]) => issues.map(issue => issue.path);
+
+describe("validateLayout", () => {
+    test("accepts a layout with null cell counts, sections and style overrides", () => {
+        const result = validateLayout({
+            x: 3,
+            y: 2,
+            cells: [
+                { id: "a", type: "seat", name: "A1", styleOverride: { borderWidth: 2, hoverOverride: { textColor: "red" } } },
+                { id: "b", type: "seat", name: "A2" },
+                "4"
+            ],
+            sections: [{ id: "s", name: "Parkett", rows: [{ id: "r", name: "A", cells: ["a", "b"] }] }],
+            globalOverride: { zoomLevel: 1, cellStyleOverride: { wall: { backgroundColor: "#000" } } }
+        });
+
+        expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    test("rejects values that aren't a layout", () => {
+        expect(validateLayout(null).valid).toBe(false);
+        expect(validateLayout([]).valid).toBe(false);
+        expect(paths(validateLayout({ x: 0, y: 1.5, cells: {} }).errors)).toEqual(["/x", "/y", "/cells"]);
+    });
+
+    test("requires the cells to fill the grid", () => {
+        const { errors } = validateLayout({ x: 2, y: 2, cells: [null, "2"] });
+
+        expect(errors).toEqual([{ path: "/cells", message: "expected 4 cells, got 3" }]);
+    });
+
+    test("points at invalid cells, duplicate ids and cells in two rows", () => {
+        const { errors } = validateLayout({
+            x: 3,
+            y: 1,
+            // The invalid null cell count adds no cells
+            cells: [{ id: "a", type: "seat" }, { id: "a", type: "chair" }, "x", { type: "seat", styleOverride: { borderWidth: "wide" } }],
+            sections: [{ id: "s", name: "S", rows: [{ id: "r1", name: "1", cells: ["a"] }, { id: "r2", name: "2", cells: ["a"] }] }]
+        });
+
+        expect(paths(errors)).toEqual([
+            "/cells/1/type",
+            "/cells/1/id",
+            "/cells/2",
+            "/cells/3/styleOverride/borderWidth",
+            "/sections/0/rows/1/cells/0"
+        ]);
+    });
+
+    test("warns about values that are accepted but likely not meant", () => {
+        const { valid, warnings } = validateLayout({
+            version: 0,
+            x: 2,
+            y: 1,
+            cells: [{ type: "seat", color: "red", styleOverride: { borderWidth: "1", borderTop: "true", shadow: 1 } }, "0", null],
+            sections: [{ id: "s", name: "S", rows: [{ id: "r", name: "1", cells: ["missing"] }] }],
+            globalOverride: { cellStyleOverride: { stage: {} } }
+        });
+
+        expect(valid).toBe(true);
+        expect(paths(warnings)).toEqual([
+            "/version",
+            "/cells/0/styleOverride/borderWidth",
+            "/cells/0/styleOverride/borderTop",
+            "/cells/0/styleOverride/shadow",
+            "/cells/0/color",
+            "/cells/1",
+            "/sections/0/rows/0/cells/0",
+            "/globalOverride/cellStyleOverride/stage"
+        ]);
+    });
+
+    test("rejects versions newer than the supported one", () => {
+        expect(paths(validateLayout({ version: 99, x: 1, y: 1, cells: [null] }).errors)).toEqual(["/version"]);
+    });
+});
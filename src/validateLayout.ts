@@ -0,0 +1,279 @@
+import { CELL_STYLE_VALUE_TYPES, CELL_TYPES, CURRENT_LAYOUT_VERSION, NULL_CELL_COUNT_PATTERN, NUMERIC_STRING_PATTERN, ZOOM_LEVELS } from "./data";
+import type { CellStyleOverridePure, CellType } from "./types";
+import { isObject } from "./util";
+
+export type LayoutValidationIssue = {
+    path: string; // JSON Pointer to the offending value, e.g. "/cells/3/styleOverride/borderWidth"
+    message: string;
+}
+
+export type LayoutValidationResult = {
+    valid: boolean;
+    errors: LayoutValidationIssue[];
+    warnings: LayoutValidationIssue[];
+}
+
+const CELL_KEYS = ["id", "name", "type", "styleOverride"];
+const STATE_OVERRIDE_KEYS = ["hoverOverride", "selectedOverride"];
+
+/**
+ * Validates an unknown value against the MapLayoutInput format.
+ * Errors make the layout unusable, warnings are values that are accepted but likely not what was meant.
+ */
+export function validateLayout(input: unknown): LayoutValidationResult {
+    const errors: LayoutValidationIssue[] = [];
+    const warnings: LayoutValidationIssue[] = [];
+
+    const error = (path: string, message: string) => errors.push({ path, message });
+    const warn = (path: string, message: string) => warnings.push({ path, message });
+
+    const validateStyle = (style: unknown, path: string, allowStateOverrides: boolean) => {
+        if (!isObject(style)) {
+            error(path, "must be an object");
+
+            return;
+        }
+
+        for (const key in style) {
+            const value = style[key];
+            const valuePath = `${path}/${key}`;
+
+            if (allowStateOverrides && STATE_OVERRIDE_KEYS.includes(key)) {
+                validateStyle(value, valuePath, false);
+
+                continue;
+            }
+
+            const expectedType = CELL_STYLE_VALUE_TYPES[key as keyof CellStyleOverridePure];
+
+            if (expectedType === undefined) {
+                warn(valuePath, "unknown style property is ignored");
+
+                continue;
+            }
+
+            if (value === undefined || typeof value === expectedType) {
+                continue;
+            }
+
+            if (typeof value === "string" && value.trim() === "") {
+                warn(valuePath, `empty value is ignored, expected a ${expectedType}`);
+            } else if (expectedType === "number" && typeof value === "string" && new RegExp(NUMERIC_STRING_PATTERN).test(value)) {
+                warn(valuePath, `should be a number, got the string "${value}"`);
+            } else if (expectedType === "boolean" && (value === "true" || value === "false")) {
+                warn(valuePath, `should be a boolean, got the string "${value}"`);
+            } else {
+                error(valuePath, `must be a ${expectedType}, got ${JSON.stringify(value)}`);
+            }
+        }
+    };
+
+    if (!isObject(input)) {
+        error("", "layout must be an object");
+
+        return { valid: false, errors, warnings };
+    }
+
+    if (input.version !== undefined) {
+        if (typeof input.version !== "number" || !Number.isInteger(input.version) || input.version < 0) {
+            error("/version", `must be a non-negative integer, got ${JSON.stringify(input.version)}`);
+        } else if (input.version > CURRENT_LAYOUT_VERSION) {
+            error("/version", `layout version ${input.version} is newer than the supported version ${CURRENT_LAYOUT_VERSION}`);
+        } else if (input.version < CURRENT_LAYOUT_VERSION) {
+            warn("/version", `layout version ${input.version} is outdated and will be migrated to version ${CURRENT_LAYOUT_VERSION}`);
+        }
+    }
+
+    for (const key of ["x", "y"]) {
+        const value = input[key];
+
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+            error(`/${key}`, `must be a positive integer, got ${JSON.stringify(value)}`);
+        }
+    }
+
+    const cellIds: Record<string, string> = {}; // id -> path of the first cell with it
+
+    if (!Array.isArray(input.cells)) {
+        error("/cells", "must be an array");
+    } else {
+        let cellCount = 0;
+
+        input.cells.forEach((cell: unknown, i: number) => {
+            const path = `/cells/${i}`;
+
+            if (cell === null) {
+                cellCount++;
+            } else if (typeof cell === "string") {
+                if (!new RegExp(NULL_CELL_COUNT_PATTERN).test(cell)) {
+                    error(path, `null cell count must be a string of digits, got "${cell}"`);
+                } else {
+                    const count = parseInt(cell, 10);
+
+                    if (count === 0) {
+                        warn(path, "null cell count of 0 adds no cells");
+                    } else {
+                        cellCount += count;
+                    }
+                }
+            } else if (isObject(cell)) {
+                cellCount++;
+
+                if (!CELL_TYPES.includes(cell.type as CellType)) {
+                    error(`${path}/type`, `must be one of ${CELL_TYPES.join(", ")}, got ${JSON.stringify(cell.type)}`);
+                }
+
+                if (cell.id !== undefined) {
+                    if (typeof cell.id !== "string" || cell.id === "") {
+                        error(`${path}/id`, "must be a non-empty string");
+                    } else if (cellIds[cell.id] !== undefined) {
+                        error(`${path}/id`, `duplicates the id of ${cellIds[cell.id]}`);
+                    } else {
+                        cellIds[cell.id] = path;
+                    }
+                }
+
+                if (cell.name !== undefined && typeof cell.name !== "string") {
+                    error(`${path}/name`, "must be a string");
+                }
+
+                if (cell.styleOverride !== undefined) {
+                    validateStyle(cell.styleOverride, `${path}/styleOverride`, true);
+                }
+
+                for (const key in cell) {
+                    if (!CELL_KEYS.includes(key)) {
+                        warn(`${path}/${key}`, "unknown cell property is ignored");
+                    }
+                }
+            } else {
+                error(path, "must be a cell object, null or a null cell count string");
+            }
+        });
+
+        if (typeof input.x === "number" && typeof input.y === "number" && cellCount !== input.x * input.y) {
+            error("/cells", `expected ${input.x * input.y} cells, got ${cellCount}`);
+        }
+    }
+
+    if (input.sections !== undefined) {
+        if (!Array.isArray(input.sections)) {
+            error("/sections", "must be an array");
+        } else {
+            const ids: Record<string, string> = {}; // section and row id -> path of the first one with it
+            const rowOfCell: Record<string, string> = {}; // cell id -> path of the row it is in
+
+            const validateId = (id: unknown, path: string) => {
+                if (typeof id !== "string" || id === "") {
+                    error(`${path}/id`, "must be a non-empty string");
+                } else if (ids[id] !== undefined) {
+                    error(`${path}/id`, `duplicates the id of ${ids[id]}`);
+                } else {
+                    ids[id] = path;
+                }
+            };
+
+            input.sections.forEach((section: unknown, i: number) => {
+                const path = `/sections/${i}`;
+
+                if (!isObject(section)) {
+                    error(path, "must be an object");
+
+                    return;
+                }
+
+                validateId(section.id, path);
+
+                if (typeof section.name !== "string") {
+                    error(`${path}/name`, "must be a string");
+                }
+
+                if (!Array.isArray(section.rows)) {
+                    error(`${path}/rows`, "must be an array");
+
+                    return;
+                }
+
+                section.rows.forEach((row: unknown, j: number) => {
+                    const rowPath = `${path}/rows/${j}`;
+
+                    if (!isObject(row)) {
+                        error(rowPath, "must be an object");
+
+                        return;
+                    }
+
+                    validateId(row.id, rowPath);
+
+                    if (typeof row.name !== "string") {
+                        error(`${rowPath}/name`, "must be a string");
+                    }
+
+                    if (!Array.isArray(row.cells)) {
+                        error(`${rowPath}/cells`, "must be an array of cell ids");
+
+                        return;
+                    }
+
+                    row.cells.forEach((id: unknown, k: number) => {
+                        const cellPath = `${rowPath}/cells/${k}`;
+
+                        if (typeof id !== "string") {
+                            error(cellPath, "must be a cell id");
+                        } else if (rowOfCell[id] !== undefined) {
+                            error(cellPath, `cell ${id} is already in ${rowOfCell[id]}`);
+                        } else {
+                            rowOfCell[id] = rowPath;
+
+                            if (Array.isArray(input.cells) && cellIds[id] === undefined) {
+                                warn(cellPath, `no cell has the id ${id}, it is ignored`);
+                            }
+                        }
+                    });
+                });
+            });
+        }
+    }
+
+    if (input.globalOverride !== undefined) {
+        const { globalOverride } = input;
+
+        if (!isObject(globalOverride)) {
+            error("/globalOverride", "must be an object");
+        } else {
+            if (globalOverride.backgroundColor !== undefined && typeof globalOverride.backgroundColor !== "string") {
+                error("/globalOverride/backgroundColor", "must be a string");
+            }
+
+            if (globalOverride.zoomLevel !== undefined && !ZOOM_LEVELS.includes(globalOverride.zoomLevel as number)) {
+                error("/globalOverride/zoomLevel", `must be one of ${ZOOM_LEVELS.join(", ")}, got ${JSON.stringify(globalOverride.zoomLevel)}`);
+            }
+
+            if (globalOverride.cellStyleOverride !== undefined) {
+                if (!isObject(globalOverride.cellStyleOverride)) {
+                    error("/globalOverride/cellStyleOverride", "must be an object");
+                } else {
+                    for (const type in globalOverride.cellStyleOverride) {
+                        const path = `/globalOverride/cellStyleOverride/${type}`;
+
+                        if (!CELL_TYPES.includes(type as CellType)) {
+                            warn(path, "unknown cell type is ignored");
+
+                            continue;
+                        }
+
+                        if (globalOverride.cellStyleOverride[type] !== undefined) {
+                            validateStyle(globalOverride.cellStyleOverride[type], path, true);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings
+    };
+}